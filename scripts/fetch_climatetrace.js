@@ -4,6 +4,8 @@ import { pipeline } from 'stream';
 import { promisify } from 'util';
 import AdmZip from 'adm-zip';
 import { parse } from 'csv-parse';
+import { createRequire } from 'module';
+import topojson from 'topojson-client';
 
 const streamPipeline = promisify(pipeline);
 
@@ -12,43 +14,121 @@ const TMP_DIR = path.join('data');
 const ZIP_PATH = path.join(TMP_DIR, 'ESP.zip');
 const OUTPUT_CSV = path.join('public', 'climatetrace_aggregated.csv');
 
-const regions = [
-  { name: 'Andalucía', coords: [37.7749, -4.7324] },
-  { name: 'Aragón', coords: [41.5868, -0.8296] },
-  { name: 'Asturias', coords: [43.3619, -5.8494] },
-  { name: 'Baleares', coords: [39.6953, 3.0176] },
-  { name: 'Canarias', coords: [28.2916, -16.6291] },
-  { name: 'Cantabria', coords: [43.1828, -3.9878] },
-  { name: 'Castilla-La Mancha', coords: [39.5663, -2.9908] },
-  { name: 'Castilla y León', coords: [41.6523, -4.7245] },
-  { name: 'Cataluña', coords: [41.8019, 1.8734] },
-  { name: 'Comunidad Valenciana', coords: [39.4840, -0.7532] },
-  { name: 'Extremadura', coords: [39.1622, -6.3432] },
-  { name: 'Galicia', coords: [42.5751, -8.1339] },
-  { name: 'Madrid', coords: [40.4165, -3.7026] },
-  { name: 'Murcia', coords: [37.9922, -1.1307] },
-  { name: 'Navarra', coords: [42.6954, -1.6761] },
-  { name: 'País Vasco', coords: [43.2630, -2.9340] },
-  { name: 'La Rioja', coords: [42.2871, -2.5396] }
-];
+// INE codes of the autonomous communities and cities, named as in the app
+const REGION_BY_CODE = {
+  '01': 'Andalucía',
+  '02': 'Aragón',
+  '03': 'Asturias',
+  '04': 'Baleares',
+  '05': 'Canarias',
+  '06': 'Cantabria',
+  '07': 'Castilla y León',
+  '08': 'Castilla-La Mancha',
+  '09': 'Cataluña',
+  '10': 'Comunidad Valenciana',
+  '11': 'Extremadura',
+  '12': 'Galicia',
+  '13': 'Madrid',
+  '14': 'Murcia',
+  '15': 'Navarra',
+  '16': 'País Vasco',
+  '17': 'La Rioja',
+  '18': 'Ceuta',
+  '19': 'Melilla'
+};
 
-function distance(a, b) {
-  const dLat = a[0] - b[0];
-  const dLon = a[1] - b[1];
-  return Math.sqrt(dLat * dLat + dLon * dLon);
+// Sources without coordinates
+const NATIONAL_REGION = 'España';
+// Sources outside every community: offshore or international
+const OUTSIDE_REGION = 'Exterior';
+// Degrees (about 5 km) within which a source snaps to a nearby community, so
+// coastal plants are not lost to the simplified coastline
+const BOUNDARY_TOLERANCE = 0.05;
+
+function loadRegions() {
+  const require = createRequire(import.meta.url);
+  const file = require.resolve('es-atlas/es/autonomous_regions.json');
+  const topology = JSON.parse(fs.readFileSync(file, 'utf8'));
+  return topojson
+    .feature(topology, topology.objects.autonomous_regions)
+    .features.filter(f => REGION_BY_CODE[f.id])
+    .map(f => {
+      const polygons = f.geometry.type === 'Polygon' ? [f.geometry.coordinates] : f.geometry.coordinates;
+      const points = polygons.flat(2);
+      const lons = points.map(p => p[0]);
+      const lats = points.map(p => p[1]);
+      return {
+        name: REGION_BY_CODE[f.id],
+        polygons,
+        bbox: [Math.min(...lons), Math.min(...lats), Math.max(...lons), Math.max(...lats)]
+      };
+    });
+}
+
+// Even-odd rule over all rings of a polygon, so holes are excluded
+function inPolygon(lon, lat, rings) {
+  let inside = false;
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      if (yi > lat !== yj > lat && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+        inside = !inside;
+      }
+    }
+  }
+  return inside;
 }
 
-function closestRegion(lat, lon) {
-  let best = regions[0];
-  let bestDist = distance([lat, lon], best.coords);
-  for (const r of regions.slice(1)) {
-    const dist = distance([lat, lon], r.coords);
-    if (dist < bestDist) {
-      bestDist = dist;
-      best = r;
+function distanceToPolygons(lon, lat, polygons) {
+  let best = Infinity;
+  for (const ring of polygons.flat()) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [x0, y0] = ring[j];
+      const [x1, y1] = ring[i];
+      const dx = x1 - x0;
+      const dy = y1 - y0;
+      const lengthSq = dx * dx + dy * dy;
+      const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((lon - x0) * dx + (lat - y0) * dy) / lengthSq));
+      best = Math.min(best, Math.hypot(lon - (x0 + t * dx), lat - (y0 + t * dy)));
     }
   }
-  return best.name;
+  return best;
+}
+
+/**
+ * Community containing the point, the nearest one within the tolerance, or
+ * OUTSIDE_REGION. `snapped` tells whether the tolerance was needed.
+ */
+function regionAt(regions, lat, lon) {
+  for (const r of regions) {
+    const [minLon, minLat, maxLon, maxLat] = r.bbox;
+    if (lon < minLon || lon > maxLon || lat < minLat || lat > maxLat) continue;
+    if (r.polygons.some(rings => inPolygon(lon, lat, rings))) return { region: r.name, snapped: false };
+  }
+  let nearest = null;
+  let nearestDist = BOUNDARY_TOLERANCE;
+  for (const r of regions) {
+    const dist = distanceToPolygons(lon, lat, r.polygons);
+    if (dist <= nearestDist) {
+      nearestDist = dist;
+      nearest = r.name;
+    }
+  }
+  return nearest ? { region: nearest, snapped: true } : { region: OUTSIDE_REGION, snapped: false };
+}
+
+function printSummary(counts, snapped) {
+  const total = [...counts.values()].reduce((sum, n) => sum + n, 0);
+  console.log(`\nAssigned ${total} sources:`);
+  const width = Math.max(...[...counts.keys()].map(k => k.length));
+  for (const [region, count] of [...counts.entries()].sort((a, b) => b[1] - a[1])) {
+    const note = region === NATIONAL_REGION ? ' (no coordinates)' : region === OUTSIDE_REGION ? ' (offshore or international)' : '';
+    console.log(`  ${region.padEnd(width)}  ${String(count).padStart(7)}${note}`);
+  }
+  if (snapped > 0) {
+    console.log(`  ${snapped} sources just outside a boundary were snapped to the nearest community`);
+  }
 }
 
 import https from 'https';
@@ -74,6 +154,9 @@ async function parseData() {
   const zip = new AdmZip(ZIP_PATH);
   const entries = zip.getEntries().filter(e => e.entryName.endsWith('_emissions_sources_v4_4_0.csv'));
   const aggregates = new Map(); // key: region|year|sector => emissions
+  const regions = loadRegions();
+  const counts = new Map(); // region => sources
+  let snapped = 0;
 
   for (const entry of entries) {
     const content = entry.getData().toString('utf8');
@@ -84,7 +167,13 @@ async function parseData() {
           const lat = parseFloat(r.lat);
           const lon = parseFloat(r.lon);
           const year = new Date(r.start_time).getFullYear();
-          const region = (!isNaN(lat) && !isNaN(lon)) ? closestRegion(lat, lon) : 'España';
+          let region = NATIONAL_REGION;
+          if (!isNaN(lat) && !isNaN(lon)) {
+            const match = regionAt(regions, lat, lon);
+            region = match.region;
+            if (match.snapped) snapped++;
+          }
+          counts.set(region, (counts.get(region) || 0) + 1);
           const sector = `${r.sector}:${r.subsector}`;
           const emissions = parseFloat(r.emissions_quantity);
           const key = `${region}|${year}|${sector}`;
@@ -103,6 +192,7 @@ async function parseData() {
   }
   fs.writeFileSync(OUTPUT_CSV, rows.join('\n'));
   console.log('Wrote aggregated data to', OUTPUT_CSV);
+  printSummary(counts, snapped);
 }
 
 async function main() {
@@ -0,0 +1,33 @@
+import React from 'react';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface CategoryLegendProps {
+  /** Colour per sector category, in display order */
+  colors: [string, string][];
+}
+
+/**
+ * One row per sector category with its colour in the donut markers.
+ */
+const CategoryLegend: React.FC<CategoryLegendProps> = ({ colors }) => {
+  const { t } = useTranslation();
+
+  if (colors.length === 0) {
+    return <div className="text-xs text-gray-500">{t('map.noData')}</div>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {colors.map(([category, color]) => (
+        <div key={category} className="flex items-center space-x-2">
+          <div className="w-4 h-4 rounded-full shrink-0" style={{ backgroundColor: color }} />
+          <span className="text-xs text-gray-600 truncate">
+            {category ? t(`category.${category}`) : t('map.noCategory')}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CategoryLegend;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { useTranslation } from '../hooks/useTranslation';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CHANGE_MEASURES, type ChangeSettings } from '../utils/change';
+
+interface ChangeControlsProps {
+  settings: ChangeSettings;
+  onChange: (settings: ChangeSettings) => void;
+  /** Years in ascending order */
+  years: number[];
+}
+
+const ChangeControls: React.FC<ChangeControlsProps> = ({ settings, onChange, years }) => {
+  const { t } = useTranslation();
+
+  // Turning the change map on picks the last two years unless set before
+  const toggle = (enabled: boolean) =>
+    onChange({
+      ...settings,
+      enabled,
+      baseYear: settings.baseYear ?? years[years.length - 2] ?? null,
+      compareYear: settings.compareYear ?? years[years.length - 1] ?? null,
+    });
+
+  const renderYear = (field: 'baseYear' | 'compareYear') => (
+    <Select
+      value={settings[field] === null ? '' : String(settings[field])}
+      onValueChange={value => onChange({ ...settings, [field]: Number(value) })}
+    >
+      <SelectTrigger className="flex-1" title={t(`change.${field}`)}>
+        <SelectValue placeholder={t(`change.${field}`)} />
+      </SelectTrigger>
+      <SelectContent className="bg-white z-[1400]">
+        {years.map(year => (
+          <SelectItem key={year} value={String(year)}>
+            {year}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+        <Checkbox
+          checked={settings.enabled}
+          disabled={years.length < 2}
+          onCheckedChange={checked => toggle(checked === true)}
+        />
+        <span>{t('change.title')}</span>
+      </label>
+      {settings.enabled && (
+        <>
+          <div className="flex items-center space-x-2">
+            {renderYear('baseYear')}
+            <span className="text-gray-400">→</span>
+            {renderYear('compareYear')}
+          </div>
+          <div className="flex space-x-2">
+            {CHANGE_MEASURES.map(measure => (
+              <Button
+                key={measure}
+                size="sm"
+                variant={settings.measure === measure ? 'default' : 'outline'}
+                className="flex-1"
+                onClick={() => onChange({ ...settings, measure })}
+              >
+                {t(`change.measure.${measure}`)}
+              </Button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ChangeControls;
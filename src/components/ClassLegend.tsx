@@ -0,0 +1,57 @@
+import React from 'react';
+import { useTranslation } from '../hooks/useTranslation';
+import { humanizeValue } from '@/utils/humanize';
+import { MISSING_COLOR } from '../utils/palettes';
+
+interface ClassLegendProps {
+  /** Class bounds, one more than colours */
+  breaks: number[];
+  colors: string[];
+  /** Text of a class bound, in tonnes by default */
+  formatValue?: (value: number) => string;
+  /** Label of a grey row for places drawn without a value */
+  missingLabel?: string;
+}
+
+/**
+ * One row per class with its colour and value range.
+ */
+const ClassLegend: React.FC<ClassLegendProps> = ({ breaks, colors, formatValue, missingLabel }) => {
+  const { t } = useTranslation();
+
+  const missing = missingLabel && (
+    <div className="flex items-center space-x-2">
+      <div className="w-4 h-4 rounded-full shrink-0" style={{ backgroundColor: MISSING_COLOR }} />
+      <span className="text-xs text-gray-600">{missingLabel}</span>
+    </div>
+  );
+
+  if (breaks.length < 2) {
+    return missing || <div className="text-xs text-gray-500">{t('map.noData')}</div>;
+  }
+
+  const format = (value: number) => {
+    if (formatValue) return formatValue(value);
+    const hv = humanizeValue(value);
+    return `${hv.value} ${t(hv.unitKey)}`;
+  };
+
+  return (
+    <div className="space-y-1">
+      {colors
+        .map((color, i) => ({ color, from: breaks[i], to: breaks[i + 1] }))
+        .reverse()
+        .map(({ color, from, to }) => (
+          <div key={`${color}-${from}`} className="flex items-center space-x-2">
+            <div className="w-4 h-4 rounded-full shrink-0" style={{ backgroundColor: color }} />
+            <span className="text-xs text-gray-600">
+              {format(from)} – {format(to)}
+            </span>
+          </div>
+        ))}
+      {missing}
+    </div>
+  );
+};
+
+export default ClassLegend;
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { useTranslation } from '../hooks/useTranslation';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  CLASSIFICATION_METHODS,
+  MAX_CLASSES,
+  MIN_CLASSES,
+  parseBreaks,
+  type Classification,
+  type ClassificationMethod,
+} from '../utils/classification';
+
+interface ClassificationControlsProps {
+  classification: Classification;
+  onChange: (classification: Classification) => void;
+}
+
+const CLASS_COUNTS = Array.from(
+  { length: MAX_CLASSES - MIN_CLASSES + 1 },
+  (_, i) => MIN_CLASSES + i
+);
+
+const ClassificationControls: React.FC<ClassificationControlsProps> = ({
+  classification,
+  onChange,
+}) => {
+  const { t } = useTranslation();
+  const [breaksText, setBreaksText] = useState(classification.customBreaks.join(', '));
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-gray-700">
+        {t('classification.title')}
+      </label>
+      <div className="flex space-x-2">
+        <Select
+          value={classification.method}
+          onValueChange={value =>
+            onChange({ ...classification, method: value as ClassificationMethod })
+          }
+        >
+          <SelectTrigger className="flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-white z-[1400]">
+            {CLASSIFICATION_METHODS.map(method => (
+              <SelectItem key={method} value={method}>
+                {t(`classification.${method}`)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {classification.method !== 'custom' && (
+          <Select
+            value={String(classification.classes)}
+            onValueChange={value => onChange({ ...classification, classes: Number(value) })}
+          >
+            <SelectTrigger className="w-16" title={t('classification.classes')}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-white z-[1400]">
+              {CLASS_COUNTS.map(count => (
+                <SelectItem key={count} value={String(count)}>
+                  {count}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+      {classification.method === 'custom' && (
+        <Input
+          value={breaksText}
+          onChange={e => {
+            setBreaksText(e.target.value);
+            onChange({ ...classification, customBreaks: parseBreaks(e.target.value) });
+          }}
+          placeholder={t('classification.customPlaceholder')}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ClassificationControls;
@@ -0,0 +1,131 @@
+import React from 'react';
+import { useTranslation } from '../hooks/useTranslation';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  FIELD_ROLES,
+  missingFields,
+  type ColumnMapping,
+  type ColumnRole,
+} from '../utils/ingest';
+
+interface ColumnMappingStepProps {
+  headers: string[];
+  previewRows: string[][];
+  mapping: ColumnMapping;
+  onMappingChange: (mapping: ColumnMapping) => void;
+  remember: boolean;
+  onRememberChange: (remember: boolean) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+  disabled?: boolean;
+}
+
+const ROLES: ColumnRole[] = [...FIELD_ROLES, 'metric', 'ignore'];
+
+const ColumnMappingStep: React.FC<ColumnMappingStepProps> = ({
+  headers,
+  previewRows,
+  mapping,
+  onMappingChange,
+  remember,
+  onRememberChange,
+  onConfirm,
+  onCancel,
+  disabled,
+}) => {
+  const { t } = useTranslation();
+  const missing = missingFields(mapping);
+
+  // A field can only come from one column; reassigning it frees the old one
+  const handleRoleChange = (idx: number, role: ColumnRole) => {
+    const next = mapping.map((r, i) => {
+      if (i === idx) return role;
+      if (role !== 'metric' && role !== 'ignore' && r === role) return 'ignore';
+      return r;
+    });
+    onMappingChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">{t('mapping.description')}</p>
+
+      <div className="overflow-x-auto border rounded-md">
+        <table className="text-xs min-w-full">
+          <thead className="bg-gray-50">
+            <tr>
+              {headers.map((header, idx) => (
+                <th key={idx} className="p-2 text-left align-top font-medium">
+                  <div className="mb-1 truncate max-w-[10rem]" title={header}>
+                    {header}
+                  </div>
+                  <Select
+                    value={mapping[idx]}
+                    onValueChange={value => handleRoleChange(idx, value as ColumnRole)}
+                    disabled={disabled}
+                  >
+                    <SelectTrigger className="h-8 text-xs min-w-[8rem]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-white">
+                      {ROLES.map(role => (
+                        <SelectItem key={role} value={role}>
+                          {t(`mapping.role.${role}`)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {previewRows.map((row, rowIdx) => (
+              <tr key={rowIdx} className="border-t">
+                {headers.map((_, idx) => (
+                  <td key={idx} className="p-2 text-gray-700 truncate max-w-[10rem]">
+                    {row[idx] ?? ''}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {missing.length > 0 && (
+        <p className="text-sm text-red-600">
+          {t('mapping.missing', {
+            fields: missing.map(f => t(`mapping.role.${f}`)).join(', '),
+          })}
+        </p>
+      )}
+
+      <label className="flex items-center space-x-2 text-sm text-gray-700">
+        <Checkbox
+          checked={remember}
+          onCheckedChange={checked => onRememberChange(checked === true)}
+          disabled={disabled}
+        />
+        <span>{t('mapping.remember')}</span>
+      </label>
+
+      <div className="flex space-x-2">
+        <Button
+          onClick={onConfirm}
+          disabled={disabled || missing.length > 0}
+          className="flex-1"
+        >
+          {t('mapping.import')}
+        </Button>
+        <Button variant="outline" onClick={onCancel} disabled={disabled}>
+          {t('mapping.cancel')}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingStep;
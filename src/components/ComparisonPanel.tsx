@@ -0,0 +1,216 @@
+import React, { useMemo, useState } from 'react';
+import { Download } from 'lucide-react';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { useTranslation } from '../hooks/useTranslation';
+import { formatPercent, humanizeLabel, humanizeValue } from '@/utils/humanize';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { CO2Data } from './DataUpload';
+import type { FilterState } from './FilterPanel';
+import MultiSelectFilter from './MultiSelectFilter';
+import { EMPTY_FILTER } from '../utils/filters';
+import {
+  COMPARISON_DIMENSIONS,
+  compareCategories,
+  comparisonToCSV,
+  sideRecords,
+  type ComparisonDimension,
+  type ComparisonSide,
+} from '../utils/comparison';
+import { downloadText } from '../utils/download';
+
+interface ComparisonPanelProps {
+  data: CO2Data[];
+  filters: FilterState;
+  metric: string;
+  regions: string[];
+  /** Years in ascending order */
+  years: number[];
+}
+
+const SIDE_COLORS = { a: '#2563eb', b: '#f59e0b' };
+
+const compact = new Intl.NumberFormat(undefined, { notation: 'compact', maximumFractionDigits: 1 });
+
+/**
+ * Two selections side by side, either two regions or two years, broken down
+ * by sector category with their differences.
+ */
+const ComparisonPanel: React.FC<ComparisonPanelProps> = ({ data, filters, metric, regions, years }) => {
+  const { t } = useTranslation();
+  const [dimension, setDimension] = useState<ComparisonDimension>('region');
+  const [sideA, setSideA] = useState<ComparisonSide>(() => ({
+    region: regions[0] ?? null,
+    year: years[years.length - 2] ?? years[0] ?? null,
+    sectors: EMPTY_FILTER,
+  }));
+  const [sideB, setSideB] = useState<ComparisonSide>(() => ({
+    region: regions[1] ?? regions[0] ?? null,
+    year: years[years.length - 1] ?? null,
+    sectors: EMPTY_FILTER,
+  }));
+
+  const sectors = useMemo(
+    () => Array.from(new Set(data.map(item => item.sector))).sort(),
+    [data]
+  );
+
+  const labelOf = (side: ComparisonSide) =>
+    String((dimension === 'region' ? side.region : side.year) ?? '–');
+  const [labelA, labelB] = [labelOf(sideA), labelOf(sideB)];
+
+  const comparison = useMemo(
+    () =>
+      compareCategories(
+        sideRecords(data, dimension, sideA, filters, metric),
+        sideRecords(data, dimension, sideB, filters, metric),
+        metric
+      ),
+    [data, dimension, sideA, sideB, filters, metric]
+  );
+
+  const categoryLabel = (category: string) =>
+    category ? t(`category.${category}`) : t('map.noCategory');
+  const format = (value: number) => {
+    const hv = humanizeValue(value);
+    return `${hv.value} ${t(hv.unitKey)}`;
+  };
+
+  const handleDownload = () => {
+    downloadText(
+      `comparison_${labelA}_${labelB}.csv`.replace(/\s+/g, '_'),
+      comparisonToCSV(comparison.rows, comparison.total, labelA, labelB)
+    );
+  };
+
+  const renderSide = (side: ComparisonSide, onChange: (side: ComparisonSide) => void, name: 'a' | 'b') => (
+    <div className="flex-1 min-w-0 space-y-2">
+      <div className="flex items-center space-x-2">
+        <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: SIDE_COLORS[name] }} />
+        <span className="text-sm font-medium text-gray-700">{t(`compare.side.${name}`)}</span>
+      </div>
+      {dimension === 'region' ? (
+        <Select value={side.region ?? ''} onValueChange={value => onChange({ ...side, region: value })}>
+          <SelectTrigger>
+            <SelectValue placeholder={t('filters.region')} />
+          </SelectTrigger>
+          <SelectContent className="bg-white z-[1400]">
+            {regions.map(region => (
+              <SelectItem key={region} value={region}>
+                {region}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : (
+        <Select
+          value={side.year === null ? '' : String(side.year)}
+          onValueChange={value => onChange({ ...side, year: Number(value) })}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder={t('filters.year')} />
+          </SelectTrigger>
+          <SelectContent className="bg-white z-[1400]">
+            {years.map(year => (
+              <SelectItem key={year} value={String(year)}>
+                {year}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <MultiSelectFilter
+        label={t('filters.value')}
+        options={sectors}
+        filter={side.sectors}
+        onChange={filter => onChange({ ...side, sectors: filter })}
+        optionLabel={val => t(`value.${val}`)}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex space-x-2">
+          {COMPARISON_DIMENSIONS.map(option => (
+            <Button
+              key={option}
+              size="sm"
+              variant={dimension === option ? 'default' : 'outline'}
+              onClick={() => setDimension(option)}
+            >
+              {t(`compare.by.${option}`)}
+            </Button>
+          ))}
+        </div>
+        <Button size="sm" variant="outline" onClick={handleDownload}>
+          <Download className="h-4 w-4 mr-1" />
+          {t('compare.download')}
+        </Button>
+      </div>
+      <p className="text-xs text-gray-500">
+        {humanizeLabel(metric)} · {t(`compare.scope.${dimension}`)}
+      </p>
+
+      <div className="flex flex-col space-y-4 sm:flex-row sm:space-y-0 sm:space-x-4">
+        {renderSide(sideA, setSideA, 'a')}
+        {renderSide(sideB, setSideB, 'b')}
+      </div>
+
+      <ResponsiveContainer width="100%" height={220}>
+        <BarChart
+          data={comparison.rows.map(row => ({ ...row, label: categoryLabel(row.category) }))}
+          margin={{ top: 5, right: 10, bottom: 0, left: 0 }}
+        >
+          <CartesianGrid strokeDasharray="3 3" vertical={false} />
+          <XAxis dataKey="label" tick={{ fontSize: 10 }} interval={0} angle={-20} textAnchor="end" height={50} />
+          <YAxis tick={{ fontSize: 10 }} width={40} tickFormatter={v => compact.format(v)} />
+          <Tooltip formatter={(v: number) => format(v)} />
+          <Legend wrapperStyle={{ fontSize: 12 }} />
+          <Bar dataKey="a" name={labelA} fill={SIDE_COLORS.a} />
+          <Bar dataKey="b" name={labelB} fill={SIDE_COLORS.b} />
+        </BarChart>
+      </ResponsiveContainer>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-xs">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="p-1 text-left font-medium">{t('filters.category')}</th>
+              <th className="p-1 text-right font-medium">{labelA}</th>
+              <th className="p-1 text-right font-medium">{labelB}</th>
+              <th className="p-1 text-right font-medium">{t('compare.difference')}</th>
+              <th className="p-1 text-right font-medium">{t('compare.percent')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...comparison.rows, comparison.total].map((row, idx) => {
+              const isTotal = idx === comparison.rows.length;
+              return (
+                <tr key={isTotal ? 'total' : row.category} className={isTotal ? 'border-t font-medium' : ''}>
+                  <td className="p-1">{isTotal ? t('compare.total') : categoryLabel(row.category)}</td>
+                  <td className="p-1 text-right">{format(row.a)}</td>
+                  <td className="p-1 text-right">{format(row.b)}</td>
+                  <td className="p-1 text-right">{format(row.difference)}</td>
+                  <td className="p-1 text-right">{row.percent === null ? t('map.na') : formatPercent(row.percent)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonPanel;
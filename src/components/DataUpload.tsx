@@ -1,123 +1,173 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { useTranslation } from '../hooks/useTranslation';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { toast } from '@/components/ui/sonner-toast';
-import { 
-  MAX_FILE_SIZE, 
-  MAX_CSV_ROWS, 
-  MAX_CSV_COLUMNS,
-  validateFileSize, 
-  validateCoordinates, 
-  sanitizeNumber, 
-  sanitizeString 
-} from '../utils/security';
+import { MAX_FILE_SIZE, MAX_CSV_ROWS, validateFileSize } from '../utils/security';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  guessMapping,
+  PREVIEW_ROWS,
+  readCSVPreview,
+  type ColumnMapping,
+  type CSVTable,
+  type IngestDiagnostics,
+  type IngestResult,
+} from '../utils/ingest';
+import { loadSavedMapping, saveMapping } from '../utils/columnMappings';
+import {
+  findSavedDataset,
+  hashUpload,
+  isQuotaExceeded,
+  saveDataset,
+} from '../utils/datasetStore';
+import { runIngest, runPreview } from '../workers/runIngest';
+import type { IngestRequest, PreviewRequest, TablePreview } from '../workers/ingest.worker';
+import type { ClimateTraceLevel } from '../utils/climatetrace';
+import ColumnMappingStep from './ColumnMappingStep';
+import RejectedRowsReport from './RejectedRowsReport';
 
 interface DataUploadProps {
-  onDataLoaded: (data: CO2Data[]) => void;
+  onDataLoaded: (data: CO2Data[], name: string, diagnostics?: IngestDiagnostics) => void;
 }
 
 export interface CO2Data {
   region: string;
+  province?: string;
+  municipality?: string;
+  /** Five-digit INE municipality code */
+  municipalityCode?: string;
   year: number;
   sector: string;
   sectorCategory?: string;
   sectorValue?: string;
   emissions: number;
   coordinates?: [number, number];
+  /** Id of the workspace dataset the record came from */
+  dataset?: string;
   [key: string]: unknown;
 }
 
+/** How an uploaded file is read: streamed as CSV, or whole in the worker */
+type UploadFormat = 'csv' | 'sheet' | 'geojson';
+
+interface PendingUpload {
+  file: File;
+  format: UploadFormat;
+  preview: CSVTable;
+  mapping: ColumnMapping;
+  /** Sheets of a workbook and the one to import */
+  sheets?: TablePreview['sheets'];
+}
+
+export const DEFAULT_DATASET_NAME = 'ClimateTrace';
+
+const SPREADSHEET_EXTENSIONS = ['.xlsx', '.xls', '.ods'];
+const GEOJSON_EXTENSIONS = ['.geojson', '.json'];
+const ZIP_EXTENSIONS = ['.zip'];
+const ACCEPTED_EXTENSIONS = [
+  '.csv',
+  ...SPREADSHEET_EXTENSIONS,
+  ...GEOJSON_EXTENSIONS,
+  ...ZIP_EXTENSIONS,
+];
+
+const CLIMATETRACE_LEVELS: ClimateTraceLevel[] = ['region', 'municipality', 'source'];
+
+const hasExtension = (fileName: string, extensions: string[]): boolean =>
+  extensions.some(ext => fileName.toLowerCase().endsWith(ext));
+
+const initialMapping = (headers: string[]): ColumnMapping =>
+  loadSavedMapping(headers) ?? guessMapping(headers);
+
+const fromPreview = ({ headers, rows, sheets }: TablePreview) => ({
+  preview: { headers, rows },
+  mapping: initialMapping(headers),
+  sheets,
+});
+
+const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
 const DataUpload: React.FC<DataUploadProps> = ({ onDataLoaded }) => {
-  const { t, language } = useTranslation();
+  const { t } = useTranslation();
   const [isLoading, setIsLoading] = useState(false);
   const [processingProgress, setProcessingProgress] = useState(0);
+  const [pending, setPending] = useState<PendingUpload | null>(null);
+  const [rememberMapping, setRememberMapping] = useState(true);
+  const [report, setReport] = useState<{ fileName: string; diagnostics: IngestDiagnostics } | null>(null);
+  const [pendingZip, setPendingZip] = useState<File | null>(null);
+  const [zipLevel, setZipLevel] = useState<ClimateTraceLevel>('region');
+  const abortRef = useRef<AbortController | null>(null);
 
-  const parseCSV = useCallback(async (csvText: string): Promise<CO2Data[]> => {
-    const lines = csvText.trim().split('\n');
-    
-    // Enhanced validation
-    if (lines.length < 2) {
-      throw new Error('CSV file must have at least a header and one data row');
-    }
+  // Stop any running worker when the panel closes
+  useEffect(() => () => abortRef.current?.abort(), []);
 
-    if (lines.length > MAX_CSV_ROWS + 1) { // +1 for header
-      throw new Error(`CSV file has too many rows. Maximum allowed: ${MAX_CSV_ROWS}`);
+  const ingestFile = useCallback(async (request: IngestRequest): Promise<IngestResult> => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      return await runIngest(request, {
+        signal: controller.signal,
+        onProgress: setProcessingProgress,
+      });
+    } finally {
+      abortRef.current = null;
     }
+  }, []);
 
-    const headers = lines[0].split(',').map(h => sanitizeString(h.replace(/"/g, '')));
-    
-    if (headers.length > MAX_CSV_COLUMNS) {
-      throw new Error(`CSV file has too many columns. Maximum allowed: ${MAX_CSV_COLUMNS}`);
+  const previewFile = useCallback(async (request: PreviewRequest): Promise<TablePreview> => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsLoading(true);
+    setProcessingProgress(0);
+    try {
+      return await runPreview(request, { signal: controller.signal });
+    } finally {
+      abortRef.current = null;
+      setIsLoading(false);
     }
+  }, []);
 
-    const data: CO2Data[] = [];
-    const batchSize = 1000;
-
-    for (let i = 1; i < lines.length; i += batchSize) {
-      const batch = lines.slice(i, Math.min(i + batchSize, lines.length));
-      
-      for (const line of batch) {
-        const values = line.split(',').map(v => v.trim().replace(/"/g, ''));
-        if (values.length !== headers.length) continue;
+  const applyResult = useCallback((
+    fileName: string,
+    request: IngestRequest,
+    { data, diagnostics }: IngestResult
+  ) => {
+    if (diagnostics.rejected.length > 0) {
+      setReport({ fileName, diagnostics });
+    }
+    if (data.length === 0) {
+      throw new Error(t('upload.noValidData'));
+    }
 
-        const row: Record<string, string | number | undefined> = {};
+    const name = fileName.replace(/\.[^.]+$/, '');
+    onDataLoaded(data, name, diagnostics);
+    toast.success(
+      t('upload.success', { count: data.length, dropped: diagnostics.rejected.length })
+    );
 
-        headers.forEach((header, index) => {
-          const value = values[index];
-          
-          // Sanitize and validate input
-          if (!isNaN(Number(value)) && value !== '') {
-            row[header] = sanitizeNumber(value);
-          } else {
-            row[header] = sanitizeString(value);
-          }
-        });
-
-        // Map to standardized format with validation
-        const lat = row.lat ? sanitizeNumber(row.lat) : undefined;
-        const lng = row.lng ? sanitizeNumber(row.lng) : undefined;
-        
-        // Validate coordinates if provided
-        const coordinates: [number, number] | undefined = 
-          lat !== undefined && lng !== undefined && validateCoordinates(lat, lng)
-            ? [lat, lng]
-            : undefined;
-
-        const sectorRaw = sanitizeString(
-          row.sector || row.Sector || row.industry || row.industria || ''
-        );
-        const [sectorCategory, sectorValue] = sectorRaw.split(':');
-
-        const standardRow: CO2Data = {
-          region: sanitizeString(
-            row.region || row.Region || row.autonomous_community || row.comunidad_autonoma || ''
-          ),
-          year: sanitizeNumber(row.year || row.Year || row.año || 0),
-          sector: sectorValue || sectorCategory,
-          sectorCategory,
-          sectorValue: sectorValue || sectorCategory,
-          emissions: sanitizeNumber(
-            row.emissions || row.Emissions || row.emisiones || row.co2 || row.CO2 || 0
-          ),
-          coordinates,
-          ...row
-        };
-
-        // Only include valid records
-        if (standardRow.region && standardRow.year > 1900 && standardRow.year < 2100 && standardRow.emissions >= 0) {
-          data.push(standardRow);
+    // Uploading the same content again, even renamed, does not save another
+    // copy; without a hash every upload is saved
+    hashUpload(request)
+      .then(async contentHash => {
+        const saved = contentHash ? await findSavedDataset(contentHash) : undefined;
+        if (saved) {
+          toast.info(t('datasets.alreadySaved', { name: saved.name }));
+          return;
         }
-      }
-
-      const processedRows = i + batch.length - 1;
-      setProcessingProgress(Math.round((processedRows / (lines.length - 1)) * 100));
-      
-      // Allow UI to update
-      await new Promise(resolve => setTimeout(resolve, 0));
-    }
+        return saveDataset(name, fileName, data, contentHash);
+      })
+      .catch(error => {
+        console.error('Error saving dataset:', error);
+        toast.error(
+          isQuotaExceeded(error) ? t('datasets.quotaExceeded') : t('datasets.saveError')
+        );
+      });
+  }, [onDataLoaded, t]);
 
-    return data;
+  const handleCancel = useCallback(() => {
+    abortRef.current?.abort();
   }, []);
 
   const loadDefaultData = useCallback(async () => {
@@ -128,12 +178,20 @@ const DataUpload: React.FC<DataUploadProps> = ({ onDataLoaded }) => {
       const res = await fetch('/climatetrace_aggregated.csv');
       if (!res.ok) throw new Error('Failed to load default data');
       
-      const text = await res.text();
-      const parsed = await parseCSV(text);
+      const { data: parsed, diagnostics } = await ingestFile({
+        type: 'csv',
+        file: await res.blob(),
+      });
       
-      onDataLoaded(parsed);
-      toast.success(t('upload.success', { count: parsed.length }));
+      onDataLoaded(parsed, DEFAULT_DATASET_NAME, diagnostics);
+      toast.success(
+        t('upload.success', { count: parsed.length, dropped: diagnostics.rejected.length })
+      );
     } catch (error) {
+      if (isAbortError(error)) {
+        toast.info(t('upload.cancelled'));
+        return;
+      }
       console.error('Error loading default data:', error);
       const errorMessage =
         error instanceof Error ? error.message : t('upload.unknownError');
@@ -142,14 +200,14 @@ const DataUpload: React.FC<DataUploadProps> = ({ onDataLoaded }) => {
       setIsLoading(false);
       setProcessingProgress(0);
     }
-  }, [parseCSV, onDataLoaded, t]);
+  }, [ingestFile, onDataLoaded, t]);
 
   const handleFileUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
     // Enhanced file validation
-    if (!file.name.toLowerCase().endsWith('.csv')) {
+    if (!hasExtension(file.name, ACCEPTED_EXTENSIONS)) {
       toast.error(t('upload.invalidFile'));
       return;
     }
@@ -163,21 +221,70 @@ const DataUpload: React.FC<DataUploadProps> = ({ onDataLoaded }) => {
       return;
     }
 
+    try {
+      setReport(null);
+      if (hasExtension(file.name, ZIP_EXTENSIONS)) {
+        setPendingZip(file);
+      } else if (hasExtension(file.name, SPREADSHEET_EXTENSIONS)) {
+        const preview = await previewFile({ type: 'sheetPreview', file });
+        setPending({ file, format: 'sheet', ...fromPreview(preview) });
+      } else if (hasExtension(file.name, GEOJSON_EXTENSIONS)) {
+        const preview = await previewFile({ type: 'geojsonPreview', file });
+        setPending({ file, format: 'geojson', ...fromPreview(preview) });
+      } else {
+        const preview = await readCSVPreview(file, PREVIEW_ROWS);
+        setPending({ file, format: 'csv', preview, mapping: initialMapping(preview.headers) });
+      }
+    } catch (error) {
+      if (isAbortError(error)) {
+        toast.info(t('upload.cancelled'));
+        return;
+      }
+      console.error('Error reading file:', error);
+      const errorMessage =
+        error instanceof Error ? error.message : t('upload.parseUnknownError');
+      toast.error(errorMessage);
+    } finally {
+      // Clear the input
+      event.target.value = '';
+    }
+  }, [previewFile, t]);
+
+  const handleSheetChange = useCallback(async (sheet: string) => {
+    if (!pending?.sheets) return;
+    try {
+      const next = await previewFile({ type: 'sheetPreview', file: pending.file, sheet });
+      setPending({ file: pending.file, format: 'sheet', ...fromPreview(next) });
+    } catch (error) {
+      if (isAbortError(error)) return;
+      const errorMessage =
+        error instanceof Error ? error.message : t('upload.parseUnknownError');
+      toast.error(errorMessage);
+    }
+  }, [pending, previewFile, t]);
+
+  const handleImport = useCallback(async () => {
+    if (!pending) return;
+
     setIsLoading(true);
     setProcessingProgress(0);
-    
+
     try {
-      const text = await file.text();
-      const parsedData = await parseCSV(text);
-      
-      if (parsedData.length === 0) {
-        throw new Error(t('upload.noValidData'));
-      }
+      const { file, format, preview, mapping, sheets } = pending;
+      if (rememberMapping) saveMapping(preview.headers, mapping);
 
-      onDataLoaded(parsedData);
-      toast.success(t('upload.success', { count: parsedData.length }));
-      
+      const request: IngestRequest =
+        format === 'sheet'
+          ? { type: 'sheet', file, sheet: sheets!.current, mapping }
+          : { type: format, file, mapping };
+      const result = await ingestFile(request);
+      setPending(null);
+      applyResult(file.name, request, result);
     } catch (error) {
+      if (isAbortError(error)) {
+        toast.info(t('upload.cancelled'));
+        return;
+      }
       console.error('Error parsing CSV:', error);
       const errorMessage =
         error instanceof Error ? error.message : t('upload.parseUnknownError');
@@ -185,10 +292,38 @@ const DataUpload: React.FC<DataUploadProps> = ({ onDataLoaded }) => {
     } finally {
       setIsLoading(false);
       setProcessingProgress(0);
-      // Clear the input
-      event.target.value = '';
     }
-  }, [parseCSV, onDataLoaded, t]);
+  }, [pending, rememberMapping, ingestFile, applyResult, t]);
+
+  const handleZipImport = useCallback(async () => {
+    if (!pendingZip) return;
+
+    setIsLoading(true);
+    setProcessingProgress(0);
+
+    try {
+      const request: IngestRequest = {
+        type: 'climatetrace',
+        file: pendingZip,
+        level: zipLevel,
+      };
+      const result = await ingestFile(request);
+      setPendingZip(null);
+      applyResult(pendingZip.name, request, result);
+    } catch (error) {
+      if (isAbortError(error)) {
+        toast.info(t('upload.cancelled'));
+        return;
+      }
+      console.error('Error reading ClimateTrace package:', error);
+      const errorMessage =
+        error instanceof Error ? error.message : t('upload.parseUnknownError');
+      toast.error(errorMessage);
+    } finally {
+      setIsLoading(false);
+      setProcessingProgress(0);
+    }
+  }, [pendingZip, zipLevel, ingestFile, applyResult, t]);
 
   return (
     <Card className="w-full">
@@ -197,11 +332,98 @@ const DataUpload: React.FC<DataUploadProps> = ({ onDataLoaded }) => {
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
-          <div>
+          {report && !pending && !pendingZip && (
+            <RejectedRowsReport
+              diagnostics={report.diagnostics}
+              fileName={report.fileName}
+              onClose={() => setReport(null)}
+            />
+          )}
+
+          {pending?.sheets && pending.sheets.names.length > 1 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {t('upload.sheet')}
+              </label>
+              <Select
+                value={pending.sheets.current}
+                onValueChange={handleSheetChange}
+                disabled={isLoading}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-white">
+                  {pending.sheets.names.map(name => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {pendingZip && (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-600">
+                {t('upload.zipDescription', { name: pendingZip.name })}
+              </p>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {t('upload.zipLevel')}
+                </label>
+                <Select
+                  value={zipLevel}
+                  onValueChange={value => setZipLevel(value as ClimateTraceLevel)}
+                  disabled={isLoading}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-white">
+                    {CLIMATETRACE_LEVELS.map(level => (
+                      <SelectItem key={level} value={level}>
+                        {t(`upload.zipLevel.${level}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex space-x-2">
+                <Button onClick={handleZipImport} disabled={isLoading} className="flex-1">
+                  {t('mapping.import')}
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setPendingZip(null)}
+                  disabled={isLoading}
+                >
+                  {t('mapping.cancel')}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {pending && (
+            <ColumnMappingStep
+              headers={pending.preview.headers}
+              previewRows={pending.preview.rows}
+              mapping={pending.mapping}
+              onMappingChange={mapping => setPending({ ...pending, mapping })}
+              remember={rememberMapping}
+              onRememberChange={setRememberMapping}
+              onConfirm={handleImport}
+              onCancel={() => setPending(null)}
+              disabled={isLoading}
+            />
+          )}
+
+          <div className={pending || pendingZip ? 'hidden' : undefined}>
             <input
               type="file"
               id="csv-upload"
-              accept=".csv"
+              accept={ACCEPTED_EXTENSIONS.join(',')}
               onChange={handleFileUpload}
               disabled={isLoading}
               className="hidden"
@@ -223,7 +445,7 @@ const DataUpload: React.FC<DataUploadProps> = ({ onDataLoaded }) => {
             </Button>
           </div>
 
-          {isLoading && processingProgress > 0 && (
+          {isLoading && (
             <div className="space-y-2">
               <div className="w-full bg-gray-200 rounded-full h-2">
                 <div 
@@ -234,6 +456,9 @@ const DataUpload: React.FC<DataUploadProps> = ({ onDataLoaded }) => {
               <p className="text-sm text-gray-600 text-center">
                 {t('upload.processing')} {processingProgress}%
               </p>
+              <Button variant="outline" size="sm" onClick={handleCancel} className="w-full">
+                {t('upload.cancel')}
+              </Button>
             </div>
           )}
           
@@ -244,7 +469,9 @@ const DataUpload: React.FC<DataUploadProps> = ({ onDataLoaded }) => {
             <ul className="list-disc list-inside space-y-1 text-xs">
               <li>{t('upload.instruction.columns')}</li>
               <li>{t('upload.instruction.optional')}</li>
+              <li>{t('upload.instruction.province')}</li>
               <li>{t('upload.instruction.headers')}</li>
+              <li>{t('upload.instruction.formats')}</li>
               <li>{t('upload.maxSize', { size: Math.round(MAX_FILE_SIZE / (1024 * 1024)) })}</li>
               <li>{t('upload.maxRows', { rows: MAX_CSV_ROWS.toLocaleString() })}</li>
             </ul>
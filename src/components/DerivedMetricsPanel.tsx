@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { useTranslation } from '../hooks/useTranslation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { validateDerivedMetric, type DerivedMetric } from '../utils/derivedMetrics';
+
+interface DerivedMetricsPanelProps {
+  metrics: DerivedMetric[];
+  onChange: (metrics: DerivedMetric[]) => void;
+  /** Numeric columns of the loaded data that formulas can read */
+  columns: string[];
+}
+
+const EMPTY: DerivedMetric = { name: '', formula: '' };
+
+/**
+ * Saved formula metrics, and a form to define a new one from the loaded
+ * data's columns.
+ */
+const DerivedMetricsPanel: React.FC<DerivedMetricsPanelProps> = ({ metrics, onChange, columns }) => {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState<DerivedMetric>(EMPTY);
+
+  const touched = draft.name !== '' || draft.formula !== '';
+  const error = touched ? validateDerivedMetric(draft, columns, metrics) : null;
+
+  const handleAdd = () => {
+    if (!touched || error) return;
+    onChange([...metrics, { name: draft.name.trim(), formula: draft.formula.trim() }]);
+    setDraft(EMPTY);
+  };
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold text-gray-900">{t('formula.title')}</h3>
+      {metrics.length === 0 && <p className="text-sm text-gray-500">{t('formula.empty')}</p>}
+      <ul className="space-y-1">
+        {metrics.map(metric => (
+          <li key={metric.name} className="flex items-center space-x-2">
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-medium truncate">{metric.name}</div>
+              <code className="block text-xs text-gray-500 truncate" title={metric.formula}>
+                {metric.formula}
+              </code>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0"
+              title={t('formula.delete')}
+              onClick={() => onChange(metrics.filter(other => other.name !== metric.name))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+      <div className="space-y-1">
+        <Input
+          value={draft.name}
+          placeholder={t('formula.name')}
+          onChange={e => setDraft({ ...draft, name: e.target.value })}
+          className="h-8"
+        />
+        <Input
+          value={draft.formula}
+          placeholder={t('formula.placeholder')}
+          onChange={e => setDraft({ ...draft, formula: e.target.value })}
+          onKeyDown={e => e.key === 'Enter' && handleAdd()}
+          className="h-8 font-mono text-xs"
+        />
+        {error ? (
+          <p className="text-xs text-red-600">{t(`formula.error.${error.reason}`, { detail: error.detail ?? '' })}</p>
+        ) : (
+          columns.length > 0 && (
+            <p className="text-xs text-gray-500">{t('formula.columns', { columns: columns.join(', ') })}</p>
+          )
+        )}
+        <Button size="sm" className="w-full" disabled={!touched || !!error} onClick={handleAdd}>
+          <Plus className="h-4 w-4 mr-1" />
+          {t('formula.add')}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default DerivedMetricsPanel;
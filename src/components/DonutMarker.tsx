@@ -0,0 +1,87 @@
+import React, { useMemo } from 'react';
+import { Marker } from 'react-leaflet';
+import { divIcon, type LatLngExpression, type LeafletEventHandlerFnMap } from 'leaflet';
+
+export interface DonutSlice {
+  color: string;
+  value: number;
+}
+
+interface DonutMarkerProps {
+  center: LatLngExpression;
+  /** Outer radius in pixels */
+  radius: number;
+  slices: DonutSlice[];
+  /** Colour of the ring around the donut */
+  outline: string;
+  eventHandlers?: LeafletEventHandlerFnMap;
+  children?: React.ReactNode;
+}
+
+// Inner radius as a share of the outer one
+const HOLE = 0.5;
+
+/**
+ * SVG of the donut. Each slice is a dashed stroke on one circle, which
+ * handles a single full slice without special cases.
+ */
+const donutSvg = (slices: DonutSlice[], radius: number, outline: string): string => {
+  const size = radius * 2;
+  const ring = (radius * (1 + HOLE)) / 2;
+  const width = radius * (1 - HOLE);
+  const circumference = 2 * Math.PI * ring;
+  const total = slices.reduce((sum, s) => sum + s.value, 0);
+  let offset = 0;
+  const arcs = slices.map(({ color, value }) => {
+    const length = total > 0 ? (value / total) * circumference : 0;
+    const arc =
+      `<circle r="${ring}" cx="${radius}" cy="${radius}" fill="none" stroke="${color}" ` +
+      `stroke-width="${width}" stroke-dasharray="${length} ${circumference - length}" ` +
+      `stroke-dashoffset="${-offset}" transform="rotate(-90 ${radius} ${radius})"/>`;
+    offset += length;
+    return arc;
+  });
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}">` +
+    `${arcs.join('')}` +
+    `<circle r="${radius - 1}" cx="${radius}" cy="${radius}" fill="none" stroke="${outline}" stroke-width="2"/>` +
+    `</svg>`
+  );
+};
+
+/**
+ * A marker drawn as a donut split into slices, e.g. by sector category.
+ * Slices take the magnitude of their value so removals still show.
+ */
+const DonutMarker: React.FC<DonutMarkerProps> = ({
+  center,
+  radius,
+  slices,
+  outline,
+  eventHandlers,
+  children,
+}) => {
+  const icon = useMemo(
+    () =>
+      divIcon({
+        html: donutSvg(
+          slices.map(s => ({ ...s, value: Math.abs(s.value) })),
+          radius,
+          outline
+        ),
+        className: '',
+        iconSize: [radius * 2, radius * 2],
+        iconAnchor: [radius, radius],
+        popupAnchor: [0, -radius],
+      }),
+    [slices, radius, outline]
+  );
+
+  return (
+    <Marker position={center} icon={icon} eventHandlers={eventHandlers}>
+      {children}
+    </Marker>
+  );
+};
+
+export default DonutMarker;
@@ -1,10 +1,15 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { useTranslation } from '../hooks/useTranslation';
 import { humanizeLabel } from '@/utils/humanize';
+import { normalizePlaceName } from '../utils/geography';
+import { TEMPORAL_MODES, type TemporalMode } from '../utils/temporal';
+import { EMPTY_FILTER, isFilterActive, type MultiFilter } from '../utils/filters';
+import MultiSelectFilter from './MultiSelectFilter';
 import { Filter, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 
@@ -12,6 +17,8 @@ interface FilterPanelProps {
   filters: FilterState;
   onFiltersChange: (filters: FilterState) => void;
   availableRegions: string[];
+  availableProvinces: string[];
+  availableMunicipalities: string[];
   availableYears: number[];
   availableCategories: string[];
   availableValues: string[];
@@ -19,35 +26,113 @@ interface FilterPanelProps {
 }
 
 export interface FilterState {
-  region: string | null;
-  year: number | null;
-  sectorCategory: string | null;
-  sector: string | null;
+  regions: MultiFilter;
+  province: string | null;
+  municipality: string | null;
+  /** Inclusive year range; null leaves that end open */
+  yearFrom: number | null;
+  yearTo: number | null;
+  /** How the years in the range are combined */
+  yearMode: TemporalMode;
+  sectorCategories: MultiFilter;
+  sectors: MultiFilter;
 }
 
+type MultiFilterKey = 'regions' | 'sectorCategories' | 'sectors';
+
 const ALL_VALUE = '__all__'
 
+// Municipality suggestions listed while searching
+const MAX_SUGGESTIONS = 8;
+
 const FilterPanel: React.FC<FilterPanelProps> = ({
   filters,
   onFiltersChange,
   availableRegions,
+  availableProvinces,
+  availableMunicipalities,
   availableYears,
   availableCategories,
   availableValues,
   onClose
 }) => {
   const { t } = useTranslation();
+  const [municipalityQuery, setMunicipalityQuery] = useState('');
+
+  const query = normalizePlaceName(municipalityQuery.trim());
+  const suggestions = query
+    ? availableMunicipalities
+        .filter(name => normalizePlaceName(name).includes(query))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
 
   const handleFilterChange = (
     key: keyof FilterState,
     value: string | number | null,
   ) => {
     const newFilters = { ...filters, [key]: value };
+    // Keep the range ordered by moving the other end along
+    if (typeof value === 'number') {
+      if (key === 'yearFrom' && filters.yearTo !== null && filters.yearTo < value) {
+        newFilters.yearTo = value;
+      }
+      if (key === 'yearTo' && filters.yearFrom !== null && filters.yearFrom > value) {
+        newFilters.yearFrom = value;
+      }
+    }
+    // Municipalities are listed per province
+    if (key === 'province') newFilters.municipality = null;
+    onFiltersChange(newFilters);
+  };
+
+  const handleMultiChange = (key: MultiFilterKey, filter: MultiFilter) => {
+    const newFilters = { ...filters, [key]: filter };
+    // Provinces and municipalities are listed per region
+    if (key === 'regions') {
+      newFilters.province = null;
+      newFilters.municipality = null;
+    }
     onFiltersChange(newFilters);
   };
 
+  // One chip per value, removable on its own
+  const renderChips = (key: MultiFilterKey, label: string, display: (value: string) => string) =>
+    filters[key].values.map(value => (
+      <Badge
+        key={`${key}-${value}`}
+        variant={filters[key].exclude ? 'outline' : 'secondary'}
+        className="space-x-1"
+      >
+        <span>
+          {label}: {filters[key].exclude && `${t('filters.not')} `}
+          {display(value)}
+        </span>
+        <button
+          aria-label={t('filters.removeValue')}
+          onClick={() =>
+            handleMultiChange(key, {
+              ...filters[key],
+              values: filters[key].values.filter(v => v !== value),
+            })
+          }
+        >
+          <X className="h-3 w-3" />
+        </button>
+      </Badge>
+    ));
+
   const resetFilters = () => {
-    const resetState = { region: null, year: null, sectorCategory: null, sector: null };
+    const resetState = {
+      regions: EMPTY_FILTER,
+      province: null,
+      municipality: null,
+      yearFrom: null,
+      yearTo: null,
+      yearMode: 'sum' as const,
+      sectorCategories: EMPTY_FILTER,
+      sectors: EMPTY_FILTER,
+    };
+    setMunicipalityQuery('');
     onFiltersChange(resetState);
   };
 
@@ -78,83 +163,172 @@ const FilterPanel: React.FC<FilterPanelProps> = ({
             {t('filters.active')}
           </label>
           <div className="flex flex-wrap gap-2">
-            {filters.region && (
+            {renderChips('regions', t('filters.region'), region => region)}
+            {filters.province && (
               <Badge variant="secondary">
-                {t('filters.region')}: {filters.region}
+                {t('filters.province')}: {filters.province}
               </Badge>
             )}
-            {filters.year && (
+            {filters.municipality && (
               <Badge variant="secondary">
-                {t('filters.year')}: {filters.year}
+                {t('filters.municipality')}: {filters.municipality}
               </Badge>
             )}
-            {filters.sectorCategory && (
+            {(filters.yearFrom !== null || filters.yearTo !== null) && (
               <Badge variant="secondary">
-                {t('filters.category')}: {t(`category.${filters.sectorCategory}`)}
+                {t('filters.year')}:{' '}
+                {filters.yearFrom === filters.yearTo
+                  ? filters.yearFrom
+                  : `${filters.yearFrom ?? '…'}–${filters.yearTo ?? '…'}`}
               </Badge>
             )}
-            {filters.sector && (
-              <Badge variant="secondary">
-                {t('filters.value')}: {t(`value.${filters.sector}`)}
-              </Badge>
+            {filters.yearMode !== 'sum' && (
+              <Badge variant="secondary">{t(`temporal.${filters.yearMode}`)}</Badge>
             )}
-            {!filters.region && !filters.year && !filters.sectorCategory && !filters.sector && (
+            {renderChips('sectorCategories', t('filters.category'), cat => t(`category.${cat}`))}
+            {renderChips('sectors', t('filters.value'), val => t(`value.${val}`))}
+            {!isFilterActive(filters.regions) && !filters.municipality &&
+              filters.yearFrom === null && filters.yearTo === null && filters.yearMode === 'sum' &&
+              !isFilterActive(filters.sectorCategories) && !isFilterActive(filters.sectors) && (
               <span className="text-sm text-gray-500">{t('filters.none')}</span>
             )}
           </div>
         </div>
 
         {/* Region Filter */}
+        <MultiSelectFilter
+          label={t('filters.region')}
+          options={availableRegions}
+          filter={filters.regions}
+          onChange={filter => handleMultiChange('regions', filter)}
+        />
+
+        {/* Province Filter */}
+        {availableProvinces.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {t('filters.province')}
+            </label>
+            <Select
+              value={filters.province ?? ALL_VALUE}
+              onValueChange={(value) =>
+                handleFilterChange('province', value === ALL_VALUE ? null : value)
+              }
+            >
+              <SelectTrigger>
+                <SelectValue placeholder={`${t('filters.province')}...`} />
+              </SelectTrigger>
+              <SelectContent className="bg-white">
+                <SelectItem value={ALL_VALUE}>{t('filters.allProvinces')}</SelectItem>
+                {availableProvinces.map((province) => (
+                  <SelectItem key={province} value={province}>
+                    {province}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {/* Municipality Search */}
+        {availableMunicipalities.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {t('filters.municipality')}
+            </label>
+            {filters.municipality ? (
+              <div className="flex items-center justify-between rounded-md border px-3 py-2 text-sm">
+                <span>{filters.municipality}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-5 w-5"
+                  onClick={() => handleFilterChange('municipality', null)}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ) : (
+              <>
+                <Input
+                  value={municipalityQuery}
+                  onChange={e => setMunicipalityQuery(e.target.value)}
+                  placeholder={t('filters.searchMunicipality')}
+                />
+                {query && (
+                  <div className="mt-1 rounded-md border bg-white">
+                    {suggestions.map(name => (
+                      <button
+                        key={name}
+                        className="block w-full px-3 py-1 text-left text-sm hover:bg-gray-100"
+                        onClick={() => {
+                          setMunicipalityQuery('');
+                          handleFilterChange('municipality', name);
+                        }}
+                      >
+                        {name}
+                      </button>
+                    ))}
+                    {suggestions.length === 0 && (
+                      <div className="px-3 py-1 text-sm text-gray-500">
+                        {t('filters.noMunicipalities')}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Year Range Filter */}
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
-            {t('filters.region')}
+            {t('filters.yearRange')}
           </label>
-          <Select
-            value={filters.region ?? ALL_VALUE}
-            onValueChange={(value) =>
-              handleFilterChange('region', value === ALL_VALUE ? null : value)
-            }
-          >
-            <SelectTrigger>
-              <SelectValue placeholder={`${t('filters.region')}...`} />
-            </SelectTrigger>
-            <SelectContent className="bg-white">
-              <SelectItem value={ALL_VALUE}>{t('filters.allRegions')}</SelectItem>
-              {availableRegions.map((region) => (
-                <SelectItem key={region} value={region}>
-                  {region}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+          <div className="flex space-x-2">
+            {(['yearFrom', 'yearTo'] as const).map(key => (
+              <Select
+                key={key}
+                value={filters[key] !== null ? String(filters[key]) : ALL_VALUE}
+                onValueChange={(value) =>
+                  handleFilterChange(key, value === ALL_VALUE ? null : parseInt(value))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-white">
+                  <SelectItem value={ALL_VALUE}>
+                    {key === 'yearFrom' ? t('filters.firstYear') : t('filters.lastYear')}
+                  </SelectItem>
+                  {[...availableYears].sort((a, b) => b - a).map((year) => (
+                    <SelectItem key={year} value={year.toString()}>
+                      {year}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ))}
+          </div>
         </div>
 
-        {/* Year Filter */}
+        {/* Temporal Aggregation */}
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
-            {t('filters.year')}
+            {t('filters.yearMode')}
           </label>
           <Select
-            value={
-              filters.year !== null && filters.year !== undefined
-                ? filters.year.toString()
-                : ALL_VALUE
-            }
-            onValueChange={(value) =>
-              handleFilterChange(
-                'year',
-                value === ALL_VALUE ? null : value ? parseInt(value) : null
-              )
-            }
+            value={filters.yearMode}
+            onValueChange={(value) => handleFilterChange('yearMode', value)}
           >
             <SelectTrigger>
-              <SelectValue placeholder={`${t('filters.year')}...`} />
+              <SelectValue />
             </SelectTrigger>
             <SelectContent className="bg-white">
-              <SelectItem value={ALL_VALUE}>{t('filters.allYears')}</SelectItem>
-              {availableYears.sort((a, b) => b - a).map((year) => (
-                <SelectItem key={year} value={year.toString()}>
-                  {year}
+              {TEMPORAL_MODES.map((mode) => (
+                <SelectItem key={mode} value={mode}>
+                  {t(`temporal.${mode}`)}
                 </SelectItem>
               ))}
             </SelectContent>
@@ -162,55 +336,23 @@ const FilterPanel: React.FC<FilterPanelProps> = ({
         </div>
 
         {/* Category Filter */}
-        <div>
-          <label className="block text-sm font-medium text-gray-700 mb-2">
-            {t('filters.category')}
-          </label>
-          <Select
-            value={filters.sectorCategory ?? ALL_VALUE}
-            onValueChange={(value) =>
-              handleFilterChange('sectorCategory', value === ALL_VALUE ? null : value)
-            }
-          >
-            <SelectTrigger>
-              <SelectValue placeholder={`${t('filters.category')}...`} />
-            </SelectTrigger>
-            <SelectContent className="bg-white">
-              <SelectItem value={ALL_VALUE}>{t('filters.allCategories')}</SelectItem>
-              {availableCategories.map((cat) => (
-                <SelectItem key={cat} value={cat}>
-                  {t(`category.${cat}`)}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        </div>
+        <MultiSelectFilter
+          label={t('filters.category')}
+          options={availableCategories}
+          filter={filters.sectorCategories}
+          onChange={filter => handleMultiChange('sectorCategories', filter)}
+          optionLabel={cat => t(`category.${cat}`)}
+        />
 
         {/* Value Filter */}
-        {filters.sectorCategory && (
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              {t('filters.value')}
-            </label>
-            <Select
-              value={filters.sector ?? ALL_VALUE}
-              onValueChange={(value) =>
-                handleFilterChange('sector', value === ALL_VALUE ? null : value)
-              }
-            >
-              <SelectTrigger>
-                <SelectValue placeholder={`${t('filters.value')}...`} />
-              </SelectTrigger>
-              <SelectContent className="bg-white">
-                <SelectItem value={ALL_VALUE}>{t('filters.allValues')}</SelectItem>
-                {availableValues.map((val) => (
-                  <SelectItem key={val} value={val}>
-                    {t(`value.${val}`)}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
+        {availableValues.length > 0 && (
+          <MultiSelectFilter
+            label={t('filters.value')}
+            options={availableValues}
+            filter={filters.sectors}
+            onChange={filter => handleMultiChange('sectors', filter)}
+            optionLabel={val => t(`value.${val}`)}
+          />
         )}
 
         {/* Reset Button */}
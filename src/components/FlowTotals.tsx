@@ -0,0 +1,34 @@
+import React from 'react';
+import { useTranslation } from '../hooks/useTranslation';
+import { humanizeValue } from '@/utils/humanize';
+import type { FlowTotals as Totals } from '../utils/flows';
+import type { Normalization } from '../utils/normalization';
+
+interface FlowTotalsProps {
+  title: string;
+  totals: Totals;
+  normalization?: Normalization;
+}
+
+/**
+ * Gross emissions, removals and the net balance on separate lines.
+ */
+const FlowTotals: React.FC<FlowTotalsProps> = ({ title, totals, normalization }) => {
+  const { t } = useTranslation();
+
+  return (
+    <div>
+      <div className="font-medium">{title}</div>
+      {(['gross', 'removals', 'net'] as const).map(flow => {
+        const hv = humanizeValue(totals[flow], 3, normalization);
+        return (
+          <div key={flow} className={flow === 'net' ? 'font-medium' : 'text-gray-500'}>
+            {t(`flow.total.${flow}`, { value: hv.value, unit: t(hv.unitKey) })}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default FlowTotals;
@@ -1,45 +1,159 @@
 // components/MapVisualization.tsx
-import React, { useMemo, useState, useEffect } from 'react';
-import { MapContainer, TileLayer, CircleMarker, Popup } from 'react-leaflet';
-import type { LatLngExpression } from 'leaflet';
+import React, { useCallback, useMemo, useState, useEffect } from 'react';
+import { MapContainer, TileLayer, CircleMarker, Popup, useMap, useMapEvents } from 'react-leaflet';
+import { geoJSON, type LatLngBounds, type LatLngExpression } from 'leaflet';
+import type { GeoJsonObject } from 'geojson';
 import 'leaflet/dist/leaflet.css';
 
 import { useTranslation } from '../hooks/useTranslation';
-import { humanizeLabel, humanizeValue } from '@/utils/humanize';
+import { formatPercent, humanizeLabel, humanizeValue } from '@/utils/humanize';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Loader2, MapPin, ChevronUp, ChevronDown } from 'lucide-react';
+import { Loader2, MapPin, ChevronUp, ChevronDown, ChevronRight, GitCompare } from 'lucide-react';
 
 import type { CO2Data } from './DataUpload';
 import type { FilterState } from './FilterPanel';
 import MobileMenuSheet from './MobileMenuSheet';
+import {
+  GEOGRAPHY_LEVELS,
+  NATIONAL_REGION,
+  normalizePlaceName,
+  OUTSIDE_REGION,
+  REGION_COORDS,
+  type GeographyLevel,
+} from '../utils/geography';
+import { geometryCentroid } from '../utils/geo';
+import { aggregateRecords, metricRanges as computeRanges, type AggregatedRecord } from '../utils/aggregate';
+import {
+  createMunicipalityIndex,
+  featureBounds,
+  loadMunicipalityBoundaries,
+  loadProvinceBoundaries,
+  loadRegionBoundaries,
+  type Boundaries,
+} from '../utils/boundaries';
+import RegionChoropleth from './RegionChoropleth';
+import RegionPopupContent from './RegionPopupContent';
+import TimelineControl from './TimelineControl';
+import RegionDetailPanel from './RegionDetailPanel';
+import ChangeControls from './ChangeControls';
+import {
+  aggregateChange,
+  DEFAULT_CHANGE,
+  isChangeSettings,
+  type ChangeRecord,
+  type ChangeSettings,
+} from '../utils/change';
+import ComparisonPanel from './ComparisonPanel';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { sumMetric } from '../utils/breakdown';
+import { applyTemporalMode, yearSpan } from '../utils/temporal';
+import { includeOnly, matchesFilter, singleValue } from '../utils/filters';
+import {
+  classify,
+  computeBreaks,
+  DEFAULT_CLASSIFICATION,
+  isClassification,
+  type Classification,
+} from '../utils/classification';
+import ClassificationControls from './ClassificationControls';
+import ClassLegend from './ClassLegend';
+import CategoryLegend from './CategoryLegend';
+import DonutMarker, { type DonutSlice } from './DonutMarker';
+import FlowTotals from './FlowTotals';
+import PalettePicker from './PalettePicker';
+import NormalizationSelect from './NormalizationSelect';
+import {
+  categoryColors,
+  DEFAULT_CATEGORICAL_PALETTE_ID,
+  DEFAULT_DIVERGING_PALETTE_ID,
+  divergingColors,
+  findPalette,
+  MISSING_COLOR,
+  paletteColors,
+} from '../utils/palettes';
+import { applyFlow, EMISSIONS_FLOWS, flowTotals, type EmissionsFlow } from '../utils/flows';
+import {
+  isMissingReference,
+  normalizeRecords,
+  NORMALIZATIONS,
+  type Normalization,
+} from '../utils/normalization';
+import {
+  datasetColor,
+  sumBySource,
+  type ViewMode,
+  type WorkspaceDataset,
+} from '../utils/workspace';
 
-// Fallback coordinates for Spanish autonomous communities
-const REGION_COORDS: Record<string, [number, number]> = {
-  'Andalucía': [37.7749, -4.7324],
-  'Aragón': [41.5868, -0.8296],
-  'Asturias': [43.3619, -5.8494],
-  'Baleares': [39.6953, 3.0176],
-  'Canarias': [28.2916, -16.6291],
-  'Cantabria': [43.1828, -3.9878],
-  'Castilla-La Mancha': [39.5663, -2.9908],
-  'Castilla y León': [41.6523, -4.7245],
-  'Cataluña': [41.8019, 1.8734],
-  'Comunidad Valenciana': [39.484, -0.7532],
-  'Extremadura': [39.1622, -6.3432],
-  'Galicia': [42.5751, -8.1339],
-  'Madrid': [40.4165, -3.7026],
-  'Murcia': [37.9922, -1.1307],
-  'Navarra': [42.6954, -1.6761],
-  'País Vasco': [43.263, -2.934],
-  'La Rioja': [42.2871, -2.5396],
-  'España': [40.4168, -3.7038]
+// Longitude gap between region markers of different datasets in separate view
+const SEPARATE_OFFSET = 0.15;
+
+export type MapMode = 'bubbles' | 'choropleth' | 'donuts';
+
+// Donuts need more room than bubbles for their slices to read
+const DONUT_PADDING = 6;
+
+// Marker colour for records without a sector category
+const NO_CATEGORY_COLOR = '#9ca3af';
+
+// Municipalities are only drawn from this zoom on; provinces stand in below
+const MUNICIPALITY_MIN_ZOOM = 8;
+
+// Records drawn on the map, rather than listed as totals in the legend
+const isMapped = (item: CO2Data) => item.region !== NATIONAL_REGION && item.region !== OUTSIDE_REGION;
+
+// Default map view (Spain)
+const SPAIN_CENTER: [number, number] = [40.4168, -3.7038];
+const SPAIN_ZOOM = 6;
+
+/**
+ * Fit the map to the given boundaries, or return to Spain without any.
+ */
+const MapFocus: React.FC<{ features: Boundaries['features'] | null }> = ({ features }) => {
+  const map = useMap();
+  useEffect(() => {
+    if (features && features.length > 0) {
+      const bounds = geoJSON({ type: 'FeatureCollection', features } as GeoJsonObject).getBounds();
+      map.fitBounds(bounds, { padding: [20, 20] });
+    } else {
+      map.setView(SPAIN_CENTER, SPAIN_ZOOM);
+    }
+  }, [map, features]);
+  return null;
+};
+
+// Place whose details are open
+interface DetailPlace {
+  level: GeographyLevel;
+  key: string;
+  name: string;
+}
+
+interface MapView {
+  zoom: number;
+  bounds: LatLngBounds | null;
+}
+
+/**
+ * Report the zoom and visible bounds whenever the map moves.
+ */
+const MapViewTracker: React.FC<{ onChange: (view: MapView) => void }> = ({ onChange }) => {
+  const map = useMapEvents({
+    moveend: () => onChange({ zoom: map.getZoom(), bounds: map.getBounds() }),
+  });
+  useEffect(() => {
+    onChange({ zoom: map.getZoom(), bounds: map.getBounds() });
+  }, [map, onChange]);
+  return null;
 };
 
 interface MapVisualizationProps {
   data: CO2Data[];
+  datasets: WorkspaceDataset[];
+  viewMode: ViewMode;
   filters: FilterState;
   selectedMetrics: string[];
   availableMetrics: string[];
@@ -48,15 +162,22 @@ interface MapVisualizationProps {
   error: string | null;
   statusMessage: string;
   availableRegions: string[];
+  availableProvinces: string[];
+  availableMunicipalities: string[];
   availableYears: number[];
   availableCategories: string[];
   availableValues: string[];
   onFiltersChange: (filters: FilterState) => void;
-  onDataLoaded: (data: CO2Data[]) => void;
+  onDataLoaded: (data: CO2Data[], name: string) => void;
+  /** Palette id per metric */
+  metricPalettes: Record<string, string>;
+  onMetricPalettesChange: (palettes: Record<string, string>) => void;
 }
 
 const MapVisualization: React.FC<MapVisualizationProps> = ({
   data,
+  datasets,
+  viewMode,
   filters,
   selectedMetrics,
   availableMetrics,
@@ -65,36 +186,431 @@ const MapVisualization: React.FC<MapVisualizationProps> = ({
   error,
   statusMessage,
   availableRegions,
+  availableProvinces,
+  availableMunicipalities,
   availableYears,
   availableCategories,
   availableValues,
   onFiltersChange,
   onDataLoaded,
+  metricPalettes,
+  onMetricPalettesChange,
 }) => {
   const { t } = useTranslation();
   const [isControlsCollapsed, setIsControlsCollapsed] = useState(false);
   const [isLegendCollapsed, setIsLegendCollapsed] = useState(false);
   const [visibleStatus, setVisibleStatus] = useState(false);
   const [displayStatus, setDisplayStatus] = useState('');
+  const [mapMode, setMapMode] = useState<MapMode>(() => {
+    try {
+      const saved = localStorage.getItem('mapMode');
+      return saved === 'choropleth' || saved === 'donuts' ? saved : 'bubbles';
+    } catch {
+      return 'bubbles';
+    }
+  });
+  const [geographyLevel, setGeographyLevel] = useState<GeographyLevel>(() => {
+    try {
+      const saved = localStorage.getItem('geographyLevel') as GeographyLevel | null;
+      return saved && GEOGRAPHY_LEVELS.includes(saved) ? saved : 'region';
+    } catch {
+      return 'region';
+    }
+  });
+  const [fixedScale, setFixedScale] = useState(() => {
+    try {
+      return localStorage.getItem('fixedScale') === 'true';
+    } catch {
+      return false;
+    }
+  });
+  const [classification, setClassification] = useState<Classification>(() => {
+    try {
+      const saved = localStorage.getItem('classification');
+      const restored = saved && { ...DEFAULT_CLASSIFICATION, ...JSON.parse(saved) };
+      return isClassification(restored) ? restored : DEFAULT_CLASSIFICATION;
+    } catch {
+      return DEFAULT_CLASSIFICATION;
+    }
+  });
+  const [flow, setFlow] = useState<EmissionsFlow>(() => {
+    try {
+      const saved = localStorage.getItem('emissionsFlow') as EmissionsFlow | null;
+      return saved && EMISSIONS_FLOWS.includes(saved) ? saved : 'net';
+    } catch {
+      return 'net';
+    }
+  });
+  const [normalization, setNormalization] = useState<Normalization>(() => {
+    try {
+      const saved = localStorage.getItem('normalization') as Normalization | null;
+      return saved && NORMALIZATIONS.includes(saved) ? saved : 'none';
+    } catch {
+      return 'none';
+    }
+  });
+  const [change, setChange] = useState<ChangeSettings>(() => {
+    try {
+      const saved = localStorage.getItem('changeView');
+      const restored = saved && { ...DEFAULT_CHANGE, ...JSON.parse(saved) };
+      return isChangeSettings(restored) ? restored : DEFAULT_CHANGE;
+    } catch {
+      return DEFAULT_CHANGE;
+    }
+  });
+  const [detail, setDetail] = useState<DetailPlace | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [mapView, setMapView] = useState<MapView>({ zoom: SPAIN_ZOOM, bounds: null });
+  const [boundaries, setBoundaries] = useState<Boundaries | null>(null);
+  const [provinceBoundaries, setProvinceBoundaries] = useState<Boundaries | null>(null);
+  const [municipalityBoundaries, setMunicipalityBoundaries] = useState<Boundaries | null>(null);
 
-  // Apply filters to data
-  const filteredData = useMemo(
+  const activeDatasets = useMemo(() => datasets.filter(d => d.active), [datasets]);
+  const multiSource = activeDatasets.length > 1;
+  const separate = multiSource && viewMode === 'separate';
+  const datasetName = (id: string) => datasets.find(d => d.id === id)?.name ?? id;
+
+  // The timeline steps through single-year ranges
+  const timelineYears = useMemo(() => [...availableYears].sort((a, b) => a - b), [availableYears]);
+  // The change map compares two years of its own instead of the year range
+  const changeActive =
+    change.enabled &&
+    change.baseYear !== change.compareYear &&
+    timelineYears.includes(change.baseYear!) &&
+    timelineYears.includes(change.compareYear!);
+
+  // A saved comparison keeps only the years the data has
+  useEffect(() => {
+    if (timelineYears.length === 0) return;
+    setChange(prev => {
+      const valid = (year: number | null) => year === null || timelineYears.includes(year);
+      if (valid(prev.baseYear) && valid(prev.compareYear)) return prev;
+      return {
+        ...prev,
+        baseYear: valid(prev.baseYear) ? prev.baseYear : null,
+        compareYear: valid(prev.compareYear) ? prev.compareYear : null,
+      };
+    });
+  }, [timelineYears]);
+  const showTimeline = timelineYears.length > 1 && selectedMetrics.length > 0 && !changeActive;
+  const timelineYear =
+    filters.yearFrom !== null && filters.yearFrom === filters.yearTo ? filters.yearFrom : null;
+  const setYear = useCallback(
+    (year: number | null) => onFiltersChange({ ...filters, yearFrom: year, yearTo: year }),
+    [filters, onFiltersChange]
+  );
+
+  // Selecting a community drills down to its provinces
+  const selectedRegion = singleValue(filters.regions);
+  const drillRegion = selectedRegion !== NATIONAL_REGION ? selectedRegion : null;
+  const drillTo = (region: string | null) =>
+    onFiltersChange({ ...filters, regions: includeOnly(region), province: null, municipality: null });
+
+  // Level actually drawn: provinces inside a drilled-down community and
+  // until the map is zoomed in far enough for municipalities
+  const municipalitiesShown =
+    geographyLevel === 'municipality' && mapView.zoom >= MUNICIPALITY_MIN_ZOOM;
+  const level: GeographyLevel = municipalitiesShown
+    ? 'municipality'
+    : geographyLevel === 'region' && !drillRegion
+      ? 'region'
+      : 'province';
+
+  useEffect(() => {
+    try {
+      localStorage.setItem('fixedScale', String(fixedScale));
+    } catch {
+      // ignore
+    }
+  }, [fixedScale]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem('changeView', JSON.stringify(change));
+    } catch {
+      // ignore
+    }
+  }, [change]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem('normalization', normalization);
+    } catch {
+      // ignore
+    }
+  }, [normalization]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem('emissionsFlow', flow);
+    } catch {
+      // ignore
+    }
+  }, [flow]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem('classification', JSON.stringify(classification));
+    } catch {
+      // ignore
+    }
+  }, [classification]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem('mapMode', mapMode);
+    } catch {
+      // ignore
+    }
+    if (mapMode !== 'choropleth' || boundaries) return;
+    let cancelled = false;
+    loadRegionBoundaries()
+      .then(loaded => {
+        if (!cancelled) setBoundaries(loaded);
+      })
+      .catch(err => console.error('Error loading region boundaries:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [mapMode, boundaries]);
+
+  useEffect(() => {
+    if (level !== 'province' || provinceBoundaries) return;
+    let cancelled = false;
+    loadProvinceBoundaries()
+      .then(loaded => {
+        if (!cancelled) setProvinceBoundaries(loaded);
+      })
+      .catch(err => console.error('Error loading province boundaries:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [level, provinceBoundaries]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem('geographyLevel', geographyLevel);
+    } catch {
+      // ignore
+    }
+    if ((geographyLevel !== 'municipality' && !filters.municipality) || municipalityBoundaries) return;
+    let cancelled = false;
+    loadMunicipalityBoundaries()
+      .then(loaded => {
+        if (!cancelled) setMunicipalityBoundaries(loaded);
+      })
+      .catch(err => console.error('Error loading municipality boundaries:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [geographyLevel, filters.municipality, municipalityBoundaries]);
+
+  const drillProvinces = useMemo<Boundaries | null>(
     () =>
-      data.filter(item => {
-        if (filters.region && item.region !== filters.region) return false;
-        if (filters.year && item.year !== filters.year) return false;
-        if (filters.sectorCategory && item.sectorCategory !== filters.sectorCategory) return false;
-        if (filters.sector && item.sector !== filters.sector) return false;
-        return true;
-      }),
-    [data, filters]
+      drillRegion && provinceBoundaries
+        ? {
+            type: 'FeatureCollection',
+            features: provinceBoundaries.features.filter(
+              f => f.properties?.region === drillRegion
+            ),
+          }
+        : null,
+    [drillRegion, provinceBoundaries]
   );
 
-  const filteredWithoutSpain = useMemo(
-    () => filteredData.filter(item => item.region !== 'España'),
-    [filteredData]
+  // Provinces of the drilled-down community, or all of them
+  const shownProvinces = drillRegion ? drillProvinces : provinceBoundaries;
+
+  const provinceCentroids = useMemo(() => {
+    const centroids: Record<string, [number, number]> = {};
+    provinceBoundaries?.features.forEach(f => {
+      const centroid = geometryCentroid(f.geometry);
+      if (centroid && f.properties) centroids[f.properties.name] = [centroid[1], centroid[0]];
+    });
+    return centroids;
+  }, [provinceBoundaries]);
+
+  // Centroid, name and extent of each municipality by INE code
+  const municipalities = useMemo(() => {
+    const centroids: Record<string, [number, number]> = {};
+    const names: Record<string, string> = {};
+    const extents = (municipalityBoundaries?.features ?? []).map(f => {
+      const centroid = geometryCentroid(f.geometry);
+      if (centroid && f.properties) centroids[f.properties.code] = [centroid[1], centroid[0]];
+      if (f.properties) names[f.properties.code] = f.properties.name;
+      return { feature: f, bounds: featureBounds(f) };
+    });
+    return { centroids, names, extents };
+  }, [municipalityBoundaries]);
+
+  const municipalityIndex = useMemo(
+    () => (municipalityBoundaries ? createMunicipalityIndex(municipalityBoundaries) : null),
+    [municipalityBoundaries]
   );
 
+  // Municipalities in view; drawing all of them at once would stall the map
+  const visibleMunicipalities = useMemo<Boundaries | null>(() => {
+    if (!municipalitiesShown || !mapView.bounds || !municipalityBoundaries) return null;
+    const view = mapView.bounds;
+    return {
+      type: 'FeatureCollection',
+      features: municipalities.extents
+        .filter(
+          ({ bounds: [minX, minY, maxX, maxY] }) =>
+            maxX >= view.getWest() &&
+            minX <= view.getEast() &&
+            maxY >= view.getSouth() &&
+            minY <= view.getNorth()
+        )
+        .map(({ feature }) => feature),
+    };
+  }, [municipalitiesShown, mapView.bounds, municipalityBoundaries, municipalities]);
+
+  // Boundaries of the searched municipality, to zoom to
+  const focusedMunicipality = useMemo(() => {
+    if (!filters.municipality || !municipalityBoundaries) return null;
+    const name = normalizePlaceName(filters.municipality);
+    const matches = municipalityBoundaries.features.filter(
+      f =>
+        f.properties &&
+        normalizePlaceName(f.properties.name) === name &&
+        (!filters.province || f.properties.province === filters.province)
+    );
+    return matches.length > 0 ? matches : null;
+  }, [filters.municipality, filters.province, municipalityBoundaries]);
+
+  /**
+   * Place a record belongs to at the given level, or undefined when the
+   * record does not say. Municipalities are keyed by INE code, resolving
+   * names through the boundaries when possible.
+   */
+  const placeKey = useCallback(
+    (item: CO2Data, at: GeographyLevel): string | undefined => {
+      if (at === 'region') return item.region;
+      if (at === 'province') return item.province;
+      if (item.municipalityCode) return item.municipalityCode;
+      if (!item.municipality) return undefined;
+      return (
+        municipalityIndex?.(item.municipality, item.province) ??
+        `${item.province ?? item.region}|${normalizePlaceName(item.municipality)}`
+      );
+    },
+    [municipalityIndex]
+  );
+
+  // Apply filters to data and normalize it; every year is kept for the
+  // fixed timeline scale
+  const filteredSigned = useMemo(
+    () =>
+      normalizeRecords(
+        data.filter(item => {
+          if (!matchesFilter(filters.regions, item.region)) return false;
+          if (filters.province && item.province !== filters.province) return false;
+          if (filters.municipality && item.municipality !== filters.municipality) return false;
+          if (!matchesFilter(filters.sectorCategories, item.sectorCategory)) return false;
+          if (!matchesFilter(filters.sectors, item.sector)) return false;
+          return true;
+        }),
+        selectedMetrics,
+        normalization,
+        level
+      ),
+    [data, filters, selectedMetrics, normalization, level]
+  );
+
+  // Gross and removals keep only the rows on their side of zero
+  const filteredAllYears = useMemo(
+    () => applyFlow(filteredSigned, selectedMetrics, flow),
+    [filteredSigned, selectedMetrics, flow]
+  );
+
+  const filteredInRange = useMemo(
+    () =>
+      filteredAllYears.filter(
+        item =>
+          (filters.yearFrom === null || item.year >= filters.yearFrom) &&
+          (filters.yearTo === null || item.year <= filters.yearTo)
+      ),
+    [filteredAllYears, filters.yearFrom, filters.yearTo]
+  );
+  const span = useMemo(() => yearSpan(filteredInRange), [filteredInRange]);
+
+  // Group records per place at the drawn level, and per dataset in separate
+  // view. Sources keep their own position unless they roll up into a
+  // municipality.
+  const bubbleGrouping = useMemo(() => {
+    const ownCoordinates = (item: CO2Data) =>
+      level === 'municipality' && placeKey(item, level) ? undefined : item.coordinates;
+    const coordinatesOf = (item: CO2Data): [number, number] | undefined => {
+      const own = ownCoordinates(item);
+      if (own) return own;
+      const place = placeKey(item, level);
+      const coords =
+        (level === 'municipality' && place ? municipalities.centroids[place] : undefined) ??
+        (level !== 'region' && item.province ? provinceCentroids[item.province] : undefined) ??
+        REGION_COORDS[item.region];
+      if (!separate || !coords) return coords;
+      const index = activeDatasets.findIndex(d => d.id === item.dataset);
+      const shift = (index - (activeDatasets.length - 1) / 2) * SEPARATE_OFFSET;
+      return [coords[0], coords[1] + shift];
+    };
+    const keyOf = (item: CO2Data) => {
+      const own = ownCoordinates(item);
+      const location = own ? own.join(',') : placeKey(item, level) ?? item.region;
+      return separate ? `${item.dataset}|${location}` : location;
+    };
+    return { keyOf, coordinatesOf };
+  }, [separate, activeDatasets, level, placeKey, provinceCentroids, municipalities]);
+
+  // Everything downstream sums records, so the temporal mode is applied here,
+  // per place as the map draws them
+  const filteredData = useMemo(
+    () =>
+      applyTemporalMode(
+        filteredInRange,
+        selectedMetrics,
+        filters.yearMode,
+        span,
+        mapMode === 'choropleth'
+          ? item => placeKey(item, level) ?? item.region
+          : bubbleGrouping.keyOf
+      ),
+    [filteredInRange, selectedMetrics, filters.yearMode, span, mapMode, level, placeKey, bubbleGrouping]
+  );
+
+  // Period the values cover, as shown in the legend and popups
+  const rangeLabel = (() => {
+    if (!span) return '';
+    const range = span.first === span.last ? String(span.first) : `${span.first}–${span.last}`;
+    switch (filters.yearMode) {
+      case 'average':
+        return t('temporal.legend.average', { range });
+      case 'latest':
+        return t('temporal.legend.latest', { year: span.last });
+      case 'change':
+        return t('temporal.legend.change', { first: span.first, last: span.last });
+      default:
+        return t('temporal.legend.sum', { range });
+    }
+  })();
+  const periodLabel = changeActive
+    ? t(`change.legend.${change.measure}`, { base: change.baseYear!, compare: change.compareYear! })
+    : rangeLabel;
+
+  const filteredWithoutSpain = useMemo(() => filteredData.filter(isMapped), [filteredData]);
+
+  // Offshore and international sources have no community to draw them in
+  const outsideTotal = useMemo(() => {
+    const metric = selectedMetrics[0];
+    if (!metric) return 0;
+    return filteredData
+      .filter(item => item.region === OUTSIDE_REGION)
+      .reduce((sum, item) => {
+        const v = item[metric];
+        return typeof v === 'number' && isFinite(v) ? sum + v : sum;
+      }, 0);
+  }, [filteredData, selectedMetrics]);
+
   const spainTotal = useMemo(() => {
     const metric = selectedMetrics[0];
     if (!metric) return 0;
@@ -106,85 +622,295 @@ const MapVisualization: React.FC<MapVisualizationProps> = ({
       }, 0);
   }, [filteredData, selectedMetrics]);
 
-  // Aggregate values per region/coords
-  const aggregatedData = useMemo(() => {
-    const map = new Map<
-      string,
-      CO2Data & {
-        count: number;
-        categories: Set<string>;
-        sectors: Set<string>;
-      }
-    >();
-
-    filteredWithoutSpain.forEach(item => {
-      const coords = item.coordinates ?? REGION_COORDS[item.region];
-      const key = coords ? `${coords[0]},${coords[1]}` : item.region;
-
-      if (map.has(key)) {
-        const existing = map.get(key)!;
-        selectedMetrics.forEach(metric => {
-          const raw = item[metric];
-          if (typeof raw === 'number' && typeof existing[metric] === 'number') {
-            existing[metric] = (existing[metric] as number) + raw;
-          }
-        });
-        if (item.sectorCategory) existing.categories.add(item.sectorCategory);
-        if (item.sector) existing.sectors.add(item.sector);
-        existing.count++;
-      } else {
-        map.set(key, {
-          ...item,
-          coordinates: coords,
-          count: 1,
-          categories: new Set(item.sectorCategory ? [item.sectorCategory] : []),
-          sectors: new Set(item.sector ? [item.sector] : []),
-        });
-      }
-    });
+  // The Spain total split into gross emissions, removals and net, whatever
+  // the flow shown on the map
+  const spainFlows = useMemo(() => {
+    const metric = selectedMetrics[0];
+    if (!metric) return null;
+    const inRange = filteredSigned.filter(
+      item =>
+        item.region === 'España' &&
+        (filters.yearFrom === null || item.year >= filters.yearFrom) &&
+        (filters.yearTo === null || item.year <= filters.yearTo)
+    );
+    return flowTotals(inRange, metric, records =>
+      applyTemporalMode(records, [metric], filters.yearMode, span)
+    );
+  }, [filteredSigned, selectedMetrics, filters.yearFrom, filters.yearTo, filters.yearMode, span]);
 
-    return Array.from(map.values()).map(entry => {
-      const { categories, sectors, ...rest } = entry;
-      return {
-        ...rest,
-        sectorCategory:
-          categories.size === 1 ? Array.from(categories)[0] : null,
-        sector: sectors.size === 1 ? Array.from(sectors)[0] : null,
-      } as CO2Data & { count: number };
-    });
-  }, [filteredWithoutSpain, selectedMetrics]);
-
-  // Compute min/max for each selected metric
-  const metricRanges = useMemo(() => {
-    const ranges: Record<string, { min: number; max: number }> = {};
-    selectedMetrics.forEach(metric => {
-      const vals = aggregatedData
-        .map(item => item[metric] as number)
-        .filter(v => typeof v === 'number' && isFinite(v));
-      if (vals.length) {
-        ranges[metric] = { min: Math.min(...vals), max: Math.max(...vals) };
-      }
+  // Spain's denominator is missing for some year in the period
+  const spainMissing = useMemo(() => {
+    const metric = selectedMetrics[0];
+    return (
+      !!metric &&
+      filteredData.some(item => item.region === NATIONAL_REGION && isMissingReference(item[metric]))
+    );
+  }, [filteredData, selectedMetrics]);
+
+  const spainTotalBySource = useMemo(() => {
+    const metric = selectedMetrics[0];
+    if (!metric || !multiSource) return {};
+    return sumBySource(filteredData.filter(item => item.region === 'España'), metric);
+  }, [filteredData, selectedMetrics, multiSource]);
+
+  // Records the change map compares, every year of them
+  const changeSource = useMemo(
+    () => (changeActive ? filteredAllYears.filter(isMapped) : []),
+    [changeActive, filteredAllYears]
+  );
+
+  const aggregatedData = useMemo<AggregatedRecord[]>(
+    () =>
+      changeActive
+        ? aggregateChange(
+            changeSource,
+            selectedMetrics,
+            bubbleGrouping.keyOf,
+            bubbleGrouping.coordinatesOf,
+            change
+          )
+        : aggregateRecords(
+            filteredWithoutSpain,
+            selectedMetrics,
+            bubbleGrouping.keyOf,
+            bubbleGrouping.coordinatesOf
+          ),
+    [changeActive, changeSource, change, filteredWithoutSpain, selectedMetrics, bubbleGrouping]
+  );
+
+  // Totals per place at the drawn level for the choropleth
+  const choroplethData = useMemo(() => {
+    const keyOf = (item: CO2Data) => placeKey(item, level)!;
+    const records = changeActive
+      ? aggregateChange(
+          changeSource.filter(item => placeKey(item, level) !== undefined),
+          selectedMetrics,
+          keyOf,
+          item => item.coordinates,
+          change
+        )
+      : aggregateRecords(
+          filteredWithoutSpain.filter(item => placeKey(item, level) !== undefined),
+          selectedMetrics,
+          keyOf
+        );
+    return new Map(records.map(item => [item.key, item] as const));
+  }, [changeActive, changeSource, change, filteredWithoutSpain, selectedMetrics, level, placeKey]);
+
+  // Donuts split a single period, so the change map draws plain bubbles
+  const markerMode = changeActive && mapMode === 'donuts' ? 'bubbles' : mapMode;
+
+  const choroplethBoundaries =
+    level === 'municipality' ? visibleMunicipalities : level === 'province' ? shownProvinces : boundaries;
+
+  // Name of the place an aggregated record stands for
+  const placeName = (item: AggregatedRecord): string => {
+    if (level === 'municipality') {
+      return (
+        item.municipality ??
+        (item.municipalityCode ? municipalities.names[item.municipalityCode] : undefined) ??
+        item.province ??
+        item.region
+      );
+    }
+    return level === 'province' ? item.province ?? item.region : item.region;
+  };
+
+  // A fixed scale spans every year's values so timeline frames compare
+  const fixedScaleActive = fixedScale && timelineYear !== null && !changeActive;
+  const allYearsRecords = useMemo(() => {
+    if (!fixedScaleActive) return null;
+    const mapped = filteredAllYears.filter(isMapped);
+    return mapMode === 'choropleth'
+      ? aggregateRecords(
+          mapped.filter(item => placeKey(item, level) !== undefined),
+          selectedMetrics,
+          item => `${item.year}|${placeKey(item, level)}`
+        )
+      : aggregateRecords(mapped, selectedMetrics, item => `${item.year}|${bubbleGrouping.keyOf(item)}`);
+  }, [fixedScaleActive, filteredAllYears, mapMode, selectedMetrics, level, placeKey, bubbleGrouping]);
+
+  // Records the colour and size scales are fitted to
+  const scaleRecords = useMemo(
+    () =>
+      allYearsRecords ??
+      (mapMode === 'choropleth' ? Array.from(choroplethData.values()) : aggregatedData),
+    [allYearsRecords, mapMode, choroplethData, aggregatedData]
+  );
+
+  // Compute min/max for each selected metric over what is drawn
+  const metricRanges = useMemo(
+    () => computeRanges(scaleRecords, selectedMetrics),
+    [scaleRecords, selectedMetrics]
+  );
+
+  // Colour classes of the first metric
+  const breaks = useMemo(() => {
+    const metric = selectedMetrics[0];
+    if (!metric) return [];
+    return computeBreaks(
+      scaleRecords
+        .map(item => item[metric])
+        .filter((v): v is number => typeof v === 'number' && isFinite(v)),
+      classification
+    );
+  }, [scaleRecords, selectedMetrics, classification]);
+  // Signed values and changes are drawn on a diverging ramp centred on zero
+  const signed = breaks.length > 1 && (breaks[0] < 0 || changeActive);
+  const chosenPalette = findPalette(metricPalettes[selectedMetrics[0]]);
+  const palette =
+    signed && chosenPalette.kind !== 'diverging'
+      ? findPalette(DEFAULT_DIVERGING_PALETTE_ID)
+      : chosenPalette;
+  const colors = useMemo(
+    () =>
+      signed
+        ? divergingColors(palette, breaks)
+        : paletteColors(palette, Math.max(0, breaks.length - 1)),
+    [signed, palette, breaks]
+  );
+
+  // Donut slices are coloured by sector category, in a stable order
+  const categoryPalette =
+    chosenPalette.kind === 'categorical'
+      ? chosenPalette
+      : findPalette(DEFAULT_CATEGORICAL_PALETTE_ID);
+  const sectorColors = useMemo(
+    () => categoryColors(categoryPalette, availableCategories.filter(Boolean)),
+    [categoryPalette, availableCategories]
+  );
+  const categoryColor = (category: string) => sectorColors[category] ?? NO_CATEGORY_COLOR;
+
+  // Slices of each donut, kept between renders so markers reuse their icons
+  const donutSlices = useMemo(() => {
+    const metric = selectedMetrics[0];
+    const slices = new Map<string, DonutSlice[]>();
+    if (markerMode !== 'donuts' || !metric) return slices;
+    aggregatedData.forEach(item => {
+      slices.set(
+        item.key,
+        Object.entries(item.byCategory).map(([category, totals]) => ({
+          color: sectorColors[category] ?? NO_CATEGORY_COLOR,
+          value: totals[metric] ?? 0,
+        }))
+      );
     });
-    return ranges;
-  }, [aggregatedData, selectedMetrics]);
+    return slices;
+  }, [markerMode, selectedMetrics, aggregatedData, sectorColors]);
+
+  // Categories present in the donuts, for the shared legend
+  const donutLegend = useMemo<[string, string][]>(() => {
+    const metric = selectedMetrics[0];
+    if (markerMode !== 'donuts' || !metric) return [];
+    const present = new Set(
+      aggregatedData.flatMap(item =>
+        Object.entries(item.byCategory)
+          .filter(([, totals]) => totals[metric])
+          .map(([category]) => category)
+      )
+    );
+    return [...availableCategories.filter(Boolean), '']
+      .filter(category => present.has(category))
+      .map(category => [category, sectorColors[category] ?? NO_CATEGORY_COLOR]);
+  }, [markerMode, selectedMetrics, aggregatedData, availableCategories, sectorColors]);
+
+  // Open the detail panel for the place a record belongs to at the drawn
+  // level, or for its community when it does not say
+  const openDetails = (item: CO2Data, name: string) => {
+    const key = placeKey(item, level);
+    setDetail(key ? { level, key, name } : { level: 'region', key: item.region, name: item.region });
+  };
 
-  // Determine marker color based on metric value
+  // Filtered records of the place in the detail panel, every year and over
+  // the selected period
+  const detailRecords = useMemo(
+    () =>
+      detail ? filteredAllYears.filter(item => placeKey(item, detail.level) === detail.key) : [],
+    [detail, filteredAllYears, placeKey]
+  );
+  const detailPeriodRecords = useMemo(
+    () => (detail ? filteredData.filter(item => placeKey(item, detail.level) === detail.key) : []),
+    [detail, filteredData, placeKey]
+  );
+  // Normalized values do not add up to a share of Spain. The total takes the
+  // sector, year and flow filters but not the geographic ones, so a place
+  // is shared against all of Spain.
+  const nationalTotal = useMemo(() => {
+    if (normalization !== 'none') return null;
+    const metric = selectedMetrics[0];
+    if (!metric) return 0;
+    const inScope = applyFlow(
+      data.filter(
+        item =>
+          matchesFilter(filters.sectorCategories, item.sectorCategory) &&
+          matchesFilter(filters.sectors, item.sector) &&
+          (filters.yearFrom === null || item.year >= filters.yearFrom) &&
+          (filters.yearTo === null || item.year <= filters.yearTo)
+      ),
+      [metric],
+      flow
+    );
+    return sumMetric(
+      applyTemporalMode(
+        inScope,
+        [metric],
+        filters.yearMode,
+        yearSpan(inScope),
+        mapMode === 'choropleth'
+          ? item => placeKey(item, level) ?? item.region
+          : bubbleGrouping.keyOf
+      ),
+      metric
+    );
+  }, [normalization, selectedMetrics, data, filters, flow, mapMode, level, placeKey, bubbleGrouping]);
+
+  // The comparison picks its own regions, years and sectors from all records
+  const comparisonData = useMemo(
+    () => (isComparing ? applyFlow(data, selectedMetrics, flow) : []),
+    [isComparing, data, selectedMetrics, flow]
+  );
+
+  // Percent changes are not in tonnes, and normalized values are per unit
+  const formatLegendValue =
+    changeActive && change.measure === 'percent'
+      ? (value: number) => formatPercent(value)
+      : normalization !== 'none'
+        ? (value: number) => {
+            const hv = humanizeValue(value, 2, normalization);
+            return `${hv.value} ${t(hv.unitKey)}`;
+          }
+        : undefined;
+
+  // Places drawn grey for lack of reference figures, named in the legend
+  const missingLabel = useMemo(() => {
+    const metric = selectedMetrics[0];
+    if (!metric || normalization === 'none') return undefined;
+    return scaleRecords.some(item => isMissingReference(item[metric]))
+      ? t('normalize.missing')
+      : undefined;
+  }, [selectedMetrics, normalization, scaleRecords, t]);
+
+  const handlePaletteChange = (id: string) => {
+    const metric = selectedMetrics[0];
+    if (metric) onMetricPalettesChange({ ...metricPalettes, [metric]: id });
+  };
+
+  // Determine marker color from the class of its value
   const getMarkerColor = (item: CO2Data, metric: string): string => {
     const val = item[metric] as number;
-    const range = metricRanges[metric];
-    if (!range || !isFinite(val)) return '#6b7280'; // gray
-    const norm = (val - range.min) / (range.max - range.min);
-    if (norm > 0.7) return '#dc2626';
-    if (norm > 0.4) return '#f59e0b';
-    return '#16a34a';
+    if (breaks.length < 2 || !isFinite(val)) return MISSING_COLOR;
+    return colors[classify(val, breaks)];
   };
 
-  // Determine marker size based on metric value
+  // Determine marker size based on metric value; signed values are sized by
+  // their magnitude so large removals draw as large as large emissions
   const getMarkerSize = (item: CO2Data, metric: string): number => {
     const val = item[metric] as number;
     const range = metricRanges[metric];
     if (!range || !isFinite(val)) return 5;
-    const norm = (val - range.min) / (range.max - range.min);
+    const low = range.min < 0 ? 0 : range.min;
+    const high = Math.max(Math.abs(range.min), range.max);
+    const norm = (Math.abs(val) - low) / (high - low);
     return Math.max(5, Math.min(20, 5 + norm * 15));
   };
 
@@ -202,8 +928,7 @@ const MapVisualization: React.FC<MapVisualizationProps> = ({
     }
   }, [statusMessage]);
 
-  // Default map center (Spain)
-  const centerCoords: LatLngExpression = [40.4168, -3.7038];
+  const centerCoords: LatLngExpression = SPAIN_CENTER;
 
   // Loading state
   if (isLoading) {
@@ -243,27 +968,55 @@ const MapVisualization: React.FC<MapVisualizationProps> = ({
           selectedMetrics={selectedMetrics}
           availableMetrics={availableMetrics}
           onMetricsChange={onMetricsChange}
+          normalization={normalization}
+          onNormalizationChange={setNormalization}
+          belowCommunities={level !== 'region'}
           aggregatedData={aggregatedData}
-          spainTotal={spainTotal}
+          spainFlows={spainFlows}
+          spainMissing={spainMissing}
+          flow={flow}
+          onFlowChange={setFlow}
           availableRegions={availableRegions}
+          availableProvinces={availableProvinces}
+          availableMunicipalities={availableMunicipalities}
           availableYears={availableYears}
           availableCategories={availableCategories}
           availableValues={availableValues}
           filters={filters}
           onFiltersChange={onFiltersChange}
           onDataLoaded={onDataLoaded}
+          mapMode={mapMode}
+          onMapModeChange={setMapMode}
+          geographyLevel={geographyLevel}
+          onGeographyLevelChange={setGeographyLevel}
+          periodLabel={periodLabel}
+          change={change}
+          onChangeSettings={setChange}
+          timelineYears={timelineYears}
+          formatLegendValue={formatLegendValue}
+          missingLabel={missingLabel}
+          classification={classification}
+          onClassificationChange={setClassification}
+          breaks={breaks}
+          colors={colors}
+          categoryColors={donutLegend}
+          onCompare={() => setIsComparing(true)}
+          palette={palette}
+          onPaletteChange={handlePaletteChange}
         />
       </div>
-      {spainTotal > 0 && (
+      {(spainTotal !== 0 || spainMissing) && (
         <div className="md:hidden absolute top-4 left-16 right-4 z-[500]">
           <Badge variant="outline" className="bg-white/95 backdrop-blur-sm">
-            {(() => {
-              const hv = humanizeValue(spainTotal, 3);
-              return t('map.spainTotal', {
-                value: hv.value,
-                unit: t(hv.unitKey),
-              });
-            })()}
+            {spainMissing
+              ? `${t('map.spainTotalTitle')}: ${t('normalize.missing')}`
+              : (() => {
+                  const hv = humanizeValue(spainTotal, 3, normalization);
+                  return t('map.spainTotal', {
+                    value: hv.value,
+                    unit: t(hv.unitKey),
+                  });
+                })()}
           </Badge>
         </div>
       )}
@@ -309,6 +1062,100 @@ const MapVisualization: React.FC<MapVisualizationProps> = ({
               </Select>
             </div>
 
+            {/* Normalization */}
+            <NormalizationSelect
+              normalization={normalization}
+              onChange={setNormalization}
+              belowCommunities={level !== 'region'}
+            />
+
+            {/* Map mode */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {t('map.mode')}
+              </label>
+              <div className="flex space-x-2">
+                <Button
+                  size="sm"
+                  variant={mapMode === 'bubbles' ? 'default' : 'outline'}
+                  className="flex-1"
+                  onClick={() => setMapMode('bubbles')}
+                >
+                  {t('map.mode.bubbles')}
+                </Button>
+                <Button
+                  size="sm"
+                  variant={mapMode === 'choropleth' ? 'default' : 'outline'}
+                  className="flex-1"
+                  onClick={() => setMapMode('choropleth')}
+                >
+                  {t('map.mode.choropleth')}
+                </Button>
+                <Button
+                  size="sm"
+                  variant={mapMode === 'donuts' ? 'default' : 'outline'}
+                  className="flex-1"
+                  onClick={() => setMapMode('donuts')}
+                >
+                  {t('map.mode.donuts')}
+                </Button>
+              </div>
+            </div>
+
+            {/* Emissions flow */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {t('flow.title')}
+              </label>
+              <div className="flex space-x-2">
+                {EMISSIONS_FLOWS.map(option => (
+                  <Button
+                    key={option}
+                    size="sm"
+                    variant={flow === option ? 'default' : 'outline'}
+                    className="flex-1 px-2"
+                    onClick={() => setFlow(option)}
+                  >
+                    {t(`flow.${option}`)}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            {/* Change between two years */}
+            <ChangeControls settings={change} onChange={setChange} years={timelineYears} />
+
+            {/* Geography level */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {t('map.level')}
+              </label>
+              <Select
+                value={geographyLevel}
+                onValueChange={value => setGeographyLevel(value as GeographyLevel)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-white z-[1400]">
+                  {GEOGRAPHY_LEVELS.map(option => (
+                    <SelectItem key={option} value={option}>
+                      {t(`map.level.${option}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Classification */}
+            <ClassificationControls
+              classification={classification}
+              onChange={setClassification}
+            />
+
+            {/* Palette */}
+            <PalettePicker palette={palette} onChange={handlePaletteChange} />
+
             {/* Stats */}
             <div className="pt-2 border-t">
               <div className="flex items-center justify-between">
@@ -318,12 +1165,23 @@ const MapVisualization: React.FC<MapVisualizationProps> = ({
                 </Badge>
               </div>
             </div>
+
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full"
+              disabled={selectedMetrics.length === 0}
+              onClick={() => setIsComparing(true)}
+            >
+              <GitCompare className="h-4 w-4 mr-2" />
+              {t('compare.open')}
+            </Button>
           </CardContent>
         )}
       </Card>
 
       {/* Desktop Legend Panel - Hidden on mobile */}
-      <Card className="hidden md:block absolute top-4 left-[22rem] z-[500] w-48 bg-white/95 backdrop-blur-sm">
+      <Card className="hidden md:block absolute top-4 left-[22rem] z-[500] w-60 bg-white/95 backdrop-blur-sm">
         <CardHeader className="pb-3">
           <CardTitle className="flex items-center justify-between text-sm">
             <span>{t('map.legend')}</span>
@@ -338,25 +1196,59 @@ const MapVisualization: React.FC<MapVisualizationProps> = ({
         </CardHeader>
         {!isLegendCollapsed && (
           <CardContent>
-            <div className="space-y-1">
-              <div className="flex items-center space-x-2">
-                <div className="w-4 h-4 rounded-full bg-red-600" />
-                <span className="text-xs text-gray-600">{t('map.high')}</span>
+            {periodLabel && (
+              <div className="pb-2 mb-2 text-xs font-medium text-gray-700 border-b">{periodLabel}</div>
+            )}
+            {markerMode === 'donuts' ? (
+              <CategoryLegend colors={donutLegend} />
+            ) : (
+              <ClassLegend
+                breaks={breaks}
+                colors={colors}
+                formatValue={formatLegendValue}
+                missingLabel={missingLabel}
+              />
+            )}
+            {separate && (
+              <div className="pt-2 space-y-1 border-t mt-2">
+                {activeDatasets.map(dataset => (
+                  <div key={dataset.id} className="flex items-center space-x-2">
+                    <div
+                      className="w-4 h-4 rounded-full border-2 shrink-0"
+                      style={{ borderColor: datasetColor(datasets, dataset.id) }}
+                    />
+                    <span className="text-xs text-gray-600 truncate">{dataset.name}</span>
+                  </div>
+                ))}
               </div>
-              <div className="flex items-center space-x-2">
-                <div className="w-4 h-4 rounded-full bg-orange-500" />
-                <span className="text-xs text-gray-600">{t('map.medium')}</span>
+            )}
+            {spainMissing ? (
+              <div className="pt-2 text-xs text-gray-700 border-t mt-2">
+                <div className="font-medium">{t('map.spainTotalTitle')}</div>
+                <div className="text-gray-500">{t('normalize.missing')}</div>
               </div>
-              <div className="flex items-center space-x-2">
-                <div className="w-4 h-4 rounded-full bg-green-600" />
-                <span className="text-xs text-gray-600">{t('map.low')}</span>
+            ) : spainFlows && (spainFlows.gross !== 0 || spainFlows.removals !== 0) && (
+              <div className="pt-2 text-xs text-gray-700 border-t mt-2">
+                <FlowTotals
+                  title={t('map.spainTotalTitle')}
+                  totals={spainFlows}
+                  normalization={normalization}
+                />
+                {Object.entries(spainTotalBySource).map(([id, value]) => {
+                  const hv = humanizeValue(value, 3, normalization);
+                  return (
+                    <div key={id} className="text-gray-500">
+                      {datasetName(id)}: {hv.value} {t(hv.unitKey)}
+                    </div>
+                  );
+                })}
               </div>
-            </div>
-            {spainTotal > 0 && (
+            )}
+            {outsideTotal !== 0 && (
               <div className="pt-2 text-xs text-gray-700 border-t mt-2">
                 {(() => {
-                  const hv = humanizeValue(spainTotal, 3);
-                  return t('map.spainTotal', {
+                  const hv = humanizeValue(outsideTotal, 3, normalization);
+                  return t('map.outsideTotal', {
                     value: hv.value,
                     unit: t(hv.unitKey),
                   });
@@ -370,7 +1262,7 @@ const MapVisualization: React.FC<MapVisualizationProps> = ({
       {/* The Map */}
       <MapContainer
         center={centerCoords}
-        zoom={6}
+        zoom={SPAIN_ZOOM}
         zoomControl={false}
         className="w-full h-full"
         scrollWheelZoom={true}
@@ -379,7 +1271,44 @@ const MapVisualization: React.FC<MapVisualizationProps> = ({
           url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
           attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
         />
-        {selectedMetrics.length > 0 &&
+        <MapFocus features={focusedMunicipality ?? drillProvinces?.features ?? null} />
+        <MapViewTracker onChange={setMapView} />
+        {selectedMetrics.length > 0 && mapMode === 'choropleth' && choroplethBoundaries && (
+          <RegionChoropleth
+            key={`${level}|${drillRegion ?? ''}`}
+            boundaries={choroplethBoundaries}
+            values={choroplethData}
+            keyOf={level === 'municipality' ? properties => properties.code : undefined}
+            fillColor={item => getMarkerColor(item, selectedMetrics[0])}
+            onSelect={level === 'region' ? drillTo : undefined}
+            onDetails={(key, name) => setDetail({ level, key, name })}
+            renderPopup={(item, name) =>
+              item ? (
+                <RegionPopupContent
+                  item={item}
+                  title={name}
+                  selectedMetrics={selectedMetrics}
+                  datasets={datasets}
+                  period={periodLabel}
+                  showDataset={false}
+                  showBreakdown={multiSource && !changeActive}
+                  normalization={normalization}
+                  change={
+                    changeActive
+                      ? { settings: change, values: (item as ChangeRecord).change }
+                      : undefined
+                  }
+                />
+              ) : (
+                <div className="p-2">
+                  <h3 className="font-semibold text-gray-900 mb-1">{name}</h3>
+                  <div className="text-sm text-gray-600">{t('map.noData')}</div>
+                </div>
+              )
+            }
+          />
+        )}
+        {selectedMetrics.length > 0 && mapMode !== 'choropleth' &&
           aggregatedData.map((item, idx) => {
             const coords =
               item.coordinates ??
@@ -388,6 +1317,44 @@ const MapVisualization: React.FC<MapVisualizationProps> = ({
                 centerCoords[1] + Math.random() * 0.1 - 0.05,
               ];
             const metric = selectedMetrics[0];
+            const popup = (
+              <Popup>
+                <RegionPopupContent
+                  item={item}
+                  title={placeName(item)}
+                  selectedMetrics={selectedMetrics}
+                  datasets={datasets}
+                  period={periodLabel}
+                  showDataset={separate}
+                  showBreakdown={multiSource && !separate && !changeActive}
+                  normalization={normalization}
+                  change={
+                    changeActive
+                      ? { settings: change, values: (item as ChangeRecord).change }
+                      : undefined
+                  }
+                  onDrillDown={
+                    level === 'region' && item.region in REGION_COORDS
+                      ? () => drillTo(item.region)
+                      : undefined
+                  }
+                />
+              </Popup>
+            );
+            if (markerMode === 'donuts') {
+              return (
+                <DonutMarker
+                  key={`${item.region}-${idx}`}
+                  center={coords as LatLngExpression}
+                  radius={getMarkerSize(item, metric) + DONUT_PADDING}
+                  slices={donutSlices.get(item.key) ?? []}
+                  outline={separate ? datasetColor(datasets, item.dataset) : 'white'}
+                  eventHandlers={{ click: () => openDetails(item, placeName(item)) }}
+                >
+                  {popup}
+                </DonutMarker>
+              );
+            }
             return (
               <CircleMarker
                 key={`${item.region}-${idx}`}
@@ -395,55 +1362,112 @@ const MapVisualization: React.FC<MapVisualizationProps> = ({
                 radius={getMarkerSize(item, metric)}
                 pathOptions={{
                   fillColor: getMarkerColor(item, metric),
-                  color: 'white',
-                  weight: 2,
+                  color: separate ? datasetColor(datasets, item.dataset) : 'white',
+                  weight: separate ? 3 : 2,
                   opacity: 0.8,
                   fillOpacity: 0.6,
                 }}
+                eventHandlers={{ click: () => openDetails(item, placeName(item)) }}
               >
-                <Popup>
-                  <div className="p-2">
-                    <h3 className="font-semibold text-gray-900 mb-1">
-                      {item.region}
-                    </h3>
-                    {selectedMetrics.map(m => (
-                      <div key={m} className="text-sm text-gray-600">
-                        <span className="font-medium">{humanizeLabel(m)}:</span>{' '}
-                        {(() => {
-                          if (typeof item[m] !== 'number') return t('map.na');
-                          const hv = humanizeValue(item[m] as number);
-                          return `${hv.value} ${t(hv.unitKey)}`;
-                        })()}
-                      </div>
-                    ))}
-                    {item.sectorCategory && (
-                      <div className="text-sm text-gray-600">
-                        <span className="font-medium">{t('filters.category')}:</span>{' '}
-                        {t(`category.${item.sectorCategory}`)}
-                      </div>
-                    )}
-                    {item.sector && (
-                      <div className="text-sm text-gray-600">
-                        <span className="font-medium">{t('filters.value')}:</span>{' '}
-                        {t(`value.${item.sector}`)}
-                      </div>
-                    )}
-                    {item.year && (
-                      <div className="text-sm text-gray-600">
-                        <span className="font-medium">{t('filters.year')}:</span> {item.year}
-                      </div>
-                    )}
-                  </div>
-                </Popup>
+                {popup}
               </CircleMarker>
             );
           })}
       </MapContainer>
 
+      {/* Drill-down breadcrumb and hints */}
+      {(drillRegion || (geographyLevel === 'municipality' && !municipalitiesShown)) && (
+        <div
+          className={`absolute top-4 left-1/2 -translate-x-1/2 z-[500] md:top-auto ${
+            showTimeline ? 'md:bottom-28' : 'md:bottom-4'
+          }`}
+        >
+          {drillRegion && (
+            <div className="flex items-center space-x-1 rounded-md border bg-white/95 backdrop-blur-sm px-3 py-1 text-sm shadow">
+              <button className="text-green-700 hover:underline" onClick={() => drillTo(null)}>
+                {NATIONAL_REGION}
+              </button>
+              <ChevronRight className="h-4 w-4 text-gray-400" />
+              {filters.province ? (
+                <>
+                  <button
+                    className="text-green-700 hover:underline"
+                    onClick={() => onFiltersChange({ ...filters, province: null, municipality: null })}
+                  >
+                    {drillRegion}
+                  </button>
+                  <ChevronRight className="h-4 w-4 text-gray-400" />
+                  <span className="font-medium">{filters.province}</span>
+                </>
+              ) : (
+                <span className="font-medium">{drillRegion}</span>
+              )}
+            </div>
+          )}
+          {drillRegion && level === 'province' && choroplethData.size === 0 && filteredWithoutSpain.length > 0 && (
+            <div className="mt-1 text-center text-xs text-gray-600">{t('map.noProvinceData')}</div>
+          )}
+          {geographyLevel === 'municipality' && !municipalitiesShown && (
+            <div className="mt-1 text-center text-xs text-gray-600">{t('map.zoomForMunicipalities')}</div>
+          )}
+        </div>
+      )}
+
+      {/* Place details: a bottom sheet on mobile, a side panel on desktop */}
+      {detail && selectedMetrics[0] && (
+        <div
+          className={`absolute inset-x-0 bottom-0 z-[600] h-[60%] rounded-t-xl border-t bg-white/95 shadow-lg backdrop-blur-sm md:inset-x-auto md:right-16 md:top-4 md:h-auto md:w-96 md:rounded-lg md:border ${
+            showTimeline ? 'md:bottom-28' : 'md:bottom-4'
+          }`}
+        >
+          <RegionDetailPanel
+            title={detail.name}
+            metric={selectedMetrics[0]}
+            years={timelineYears}
+            records={detailRecords}
+            periodRecords={detailPeriodRecords}
+            periodLabel={rangeLabel}
+            nationalTotal={nationalTotal}
+            normalization={normalization}
+            categoryColor={categoryColor}
+            onClose={() => setDetail(null)}
+          />
+        </div>
+      )}
+
+      {/* Comparison of two regions or years */}
+      <Dialog open={isComparing && selectedMetrics.length > 0} onOpenChange={setIsComparing}>
+        <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogTitle>{t('compare.title')}</DialogTitle>
+          <ComparisonPanel
+            data={comparisonData}
+            filters={filters}
+            metric={selectedMetrics[0]}
+            regions={availableRegions}
+            years={timelineYears}
+          />
+        </DialogContent>
+      </Dialog>
+
+      {/* Timeline */}
+      {showTimeline && (
+        <div className="absolute bottom-4 left-4 right-4 z-[500] md:left-1/2 md:right-auto md:w-[36rem] md:-translate-x-1/2">
+          <TimelineControl
+            years={timelineYears}
+            year={timelineYear}
+            onYearChange={setYear}
+            fixedScale={fixedScale}
+            onFixedScaleChange={setFixedScale}
+          />
+        </div>
+      )}
+
       {/* Status Message */}
       {displayStatus && (
         <div
-          className={`absolute bottom-4 left-4 z-[1000] transition-opacity duration-1000 ${
+          className={`absolute left-4 z-[1000] transition-opacity duration-1000 ${
+            showTimeline ? 'bottom-32 md:bottom-4' : 'bottom-4'
+          } ${
             visibleStatus ? 'opacity-100' : 'opacity-0'
           }`}
         >
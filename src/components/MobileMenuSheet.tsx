@@ -1,6 +1,6 @@
 
 import React, { useState } from 'react';
-import { Menu, Upload, Filter, BarChart3, Info } from 'lucide-react';
+import { Menu, Upload, Filter, BarChart3, Info, GitCompare } from 'lucide-react';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -9,45 +9,134 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 
 import { useTranslation } from '../hooks/useTranslation';
-import { humanizeLabel, humanizeValue } from '@/utils/humanize';
+import { humanizeLabel } from '@/utils/humanize';
 import DataUpload from './DataUpload';
+import SavedDatasets from './SavedDatasets';
 import FilterPanel from './FilterPanel';
 import type { CO2Data } from './DataUpload';
 import type { FilterState } from './FilterPanel';
+import type { MapMode } from './MapVisualization';
+import { GEOGRAPHY_LEVELS, type GeographyLevel } from '../utils/geography';
+import type { Classification } from '../utils/classification';
+import ClassificationControls from './ClassificationControls';
+import CategoryLegend from './CategoryLegend';
+import ChangeControls from './ChangeControls';
+import type { ChangeSettings } from '../utils/change';
+import PalettePicker from './PalettePicker';
+import FlowTotals from './FlowTotals';
+import {
+  EMISSIONS_FLOWS,
+  type EmissionsFlow,
+  type FlowTotals as FlowTotalsType,
+} from '../utils/flows';
+import type { Palette } from '../utils/palettes';
+import ClassLegend from './ClassLegend';
+import NormalizationSelect from './NormalizationSelect';
+import type { Normalization } from '../utils/normalization';
 
 interface MobileMenuSheetProps {
   selectedMetrics: string[];
   availableMetrics: string[];
   onMetricsChange: (metrics: string[]) => void;
+  normalization: Normalization;
+  onNormalizationChange: (normalization: Normalization) => void;
+  /** Places are drawn below community level */
+  belowCommunities: boolean;
   aggregatedData: CO2Data[];
-  spainTotal: number;
+  /** Gross, removals and net of the Spain total */
+  spainFlows: FlowTotalsType | null;
+  /** The Spain total lacks reference figures to normalize it */
+  spainMissing: boolean;
+  flow: EmissionsFlow;
+  onFlowChange: (flow: EmissionsFlow) => void;
   availableRegions: string[];
+  availableProvinces: string[];
+  availableMunicipalities: string[];
   availableYears: number[];
   availableCategories: string[];
   availableValues: string[];
   filters: FilterState;
   onFiltersChange: (filters: FilterState) => void;
-  onDataLoaded: (data: CO2Data[]) => void;
+  onDataLoaded: (data: CO2Data[], name: string) => void;
+  mapMode: MapMode;
+  onMapModeChange: (mode: MapMode) => void;
+  geographyLevel: GeographyLevel;
+  onGeographyLevelChange: (level: GeographyLevel) => void;
+  /** Period the values cover */
+  periodLabel: string;
+  change: ChangeSettings;
+  onChangeSettings: (settings: ChangeSettings) => void;
+  /** Years in ascending order */
+  timelineYears: number[];
+  /** Text of a legend class bound, when not in tonnes */
+  formatLegendValue?: (value: number) => string;
+  /** Legend label of places without a value, if any are drawn */
+  missingLabel?: string;
+  classification: Classification;
+  onClassificationChange: (classification: Classification) => void;
+  /** Colour class bounds and colours of the map */
+  breaks: number[];
+  colors: string[];
+  /** Sector category colours of the donut markers, empty otherwise */
+  categoryColors: [string, string][];
+  /** Open the comparison of two regions or years */
+  onCompare: () => void;
+  palette: Palette;
+  onPaletteChange: (id: string) => void;
 }
 
 const MobileMenuSheet: React.FC<MobileMenuSheetProps> = ({
   selectedMetrics,
   availableMetrics,
   onMetricsChange,
+  normalization,
+  onNormalizationChange,
+  belowCommunities,
   aggregatedData,
-  spainTotal,
+  spainFlows,
+  spainMissing,
+  flow,
+  onFlowChange,
   availableRegions,
+  availableProvinces,
+  availableMunicipalities,
   availableYears,
   availableCategories,
   availableValues,
   filters,
   onFiltersChange,
   onDataLoaded,
+  mapMode,
+  onMapModeChange,
+  geographyLevel,
+  onGeographyLevelChange,
+  periodLabel,
+  change,
+  onChangeSettings,
+  timelineYears,
+  formatLegendValue,
+  missingLabel,
+  classification,
+  onClassificationChange,
+  breaks,
+  colors,
+  categoryColors,
+  onCompare,
+  palette,
+  onPaletteChange,
 }) => {
   const { t } = useTranslation();
   const [activeTab, setActiveTab] = useState<'metrics' | 'legend' | 'upload' | 'filters'>('metrics');
   const [isOpen, setIsOpen] = useState(false);
 
+  // Selected filter values, shown on the filters tab
+  const activeFilterCount =
+    filters.regions.values.length +
+    filters.sectorCategories.values.length +
+    filters.sectors.values.length +
+    (filters.province ? 1 : 0) +
+    (filters.municipality ? 1 : 0);
+
   const TabButton: React.FC<{
     id: 'metrics' | 'legend' | 'upload' | 'filters';
     icon: React.ComponentType<{ className?: string }>;
@@ -83,7 +172,11 @@ const MobileMenuSheet: React.FC<MobileMenuSheetProps> = ({
             <TabButton id="metrics" icon={BarChart3} label={t('menu.metrics')} />
             <TabButton id="legend" icon={Info} label={t('menu.legend')} />
             <TabButton id="upload" icon={Upload} label={t('menu.upload')} />
-            <TabButton id="filters" icon={Filter} label={t('menu.filters')} />
+            <TabButton
+              id="filters"
+              icon={Filter}
+              label={activeFilterCount > 0 ? `${t('menu.filters')} (${activeFilterCount})` : t('menu.filters')}
+            />
           </div>
 
           {/* Content Area */}
@@ -111,6 +204,97 @@ const MobileMenuSheet: React.FC<MobileMenuSheetProps> = ({
                   </Select>
                 </div>
 
+                <NormalizationSelect
+                  normalization={normalization}
+                  onChange={onNormalizationChange}
+                  belowCommunities={belowCommunities}
+                />
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {t('map.mode')}
+                  </label>
+                  <div className="flex space-x-2">
+                    <Button
+                      size="sm"
+                      variant={mapMode === 'bubbles' ? 'default' : 'outline'}
+                      className="flex-1"
+                      onClick={() => onMapModeChange('bubbles')}
+                    >
+                      {t('map.mode.bubbles')}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={mapMode === 'choropleth' ? 'default' : 'outline'}
+                      className="flex-1"
+                      onClick={() => onMapModeChange('choropleth')}
+                    >
+                      {t('map.mode.choropleth')}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={mapMode === 'donuts' ? 'default' : 'outline'}
+                      className="flex-1"
+                      onClick={() => onMapModeChange('donuts')}
+                    >
+                      {t('map.mode.donuts')}
+                    </Button>
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {t('flow.title')}
+                  </label>
+                  <div className="flex space-x-2">
+                    {EMISSIONS_FLOWS.map(option => (
+                      <Button
+                        key={option}
+                        size="sm"
+                        variant={flow === option ? 'default' : 'outline'}
+                        className="flex-1"
+                        onClick={() => onFlowChange(option)}
+                      >
+                        {t(`flow.${option}`)}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+
+                <ChangeControls
+                  settings={change}
+                  onChange={onChangeSettings}
+                  years={timelineYears}
+                />
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {t('map.level')}
+                  </label>
+                  <Select
+                    value={geographyLevel}
+                    onValueChange={value => onGeographyLevelChange(value as GeographyLevel)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-white">
+                      {GEOGRAPHY_LEVELS.map(option => (
+                        <SelectItem key={option} value={option}>
+                          {t(`map.level.${option}`)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <ClassificationControls
+                  classification={classification}
+                  onChange={onClassificationChange}
+                />
+
+                <PalettePicker palette={palette} onChange={onPaletteChange} />
+
                 <Separator />
 
                 <div className="flex items-center justify-between">
@@ -119,42 +303,57 @@ const MobileMenuSheet: React.FC<MobileMenuSheetProps> = ({
                     {aggregatedData.length} {t('map.regionsLabel')}
                   </Badge>
                 </div>
+
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => {
+                    setIsOpen(false);
+                    onCompare();
+                  }}
+                >
+                  <GitCompare className="h-4 w-4 mr-2" />
+                  {t('compare.open')}
+                </Button>
               </div>
             )}
 
             {activeTab === 'legend' && (
               <div className="space-y-4">
                 <h3 className="text-sm font-medium text-gray-700">{t('map.legend')}</h3>
-              <div className="space-y-3">
-                <div className="flex items-center space-x-3">
-                  <div className="w-6 h-6 rounded-full bg-red-600" />
-                  <span className="text-sm text-gray-600">{t('map.high')}</span>
-                </div>
-                <div className="flex items-center space-x-3">
-                  <div className="w-6 h-6 rounded-full bg-orange-500" />
-                  <span className="text-sm text-gray-600">{t('map.medium')}</span>
-                </div>
-                <div className="flex items-center space-x-3">
-                  <div className="w-6 h-6 rounded-full bg-green-600" />
-                  <span className="text-sm text-gray-600">{t('map.low')}</span>
+                {periodLabel && <p className="text-sm text-gray-600">{periodLabel}</p>}
+              {categoryColors.length > 0 ? (
+                <CategoryLegend colors={categoryColors} />
+              ) : (
+                <ClassLegend
+                  breaks={breaks}
+                  colors={colors}
+                  formatValue={formatLegendValue}
+                  missingLabel={missingLabel}
+                />
+              )}
+              {spainMissing ? (
+                <div className="pt-2 text-sm text-gray-700 border-t">
+                  <div className="font-medium">{t('map.spainTotalTitle')}</div>
+                  <div className="text-gray-500">{t('normalize.missing')}</div>
                 </div>
-              </div>
-              {spainTotal > 0 && (
+              ) : spainFlows && (spainFlows.gross !== 0 || spainFlows.removals !== 0) && (
                 <div className="pt-2 text-sm text-gray-700 border-t">
-                  {(() => {
-                    const hv = humanizeValue(spainTotal, 3);
-                    return t('map.spainTotal', {
-                      value: hv.value,
-                      unit: t(hv.unitKey),
-                    });
-                  })()}
+                  <FlowTotals
+                    title={t('map.spainTotalTitle')}
+                    totals={spainFlows}
+                    normalization={normalization}
+                  />
                 </div>
               )}
             </div>
           )}
 
             {activeTab === 'upload' && (
-              <DataUpload onDataLoaded={onDataLoaded} />
+              <div className="space-y-4">
+                <DataUpload onDataLoaded={onDataLoaded} />
+                <SavedDatasets onOpen={(data, dataset) => onDataLoaded(data, dataset.name)} />
+              </div>
             )}
 
             {activeTab === 'filters' && (
@@ -162,6 +361,8 @@ const MobileMenuSheet: React.FC<MobileMenuSheetProps> = ({
                 filters={filters}
                 onFiltersChange={onFiltersChange}
                 availableRegions={availableRegions}
+                availableProvinces={availableProvinces}
+                availableMunicipalities={availableMunicipalities}
                 availableYears={availableYears}
                 availableCategories={availableCategories}
                 availableValues={availableValues}
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { useTranslation } from '../hooks/useTranslation';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { normalizePlaceName } from '../utils/geography';
+import type { MultiFilter } from '../utils/filters';
+
+interface MultiSelectFilterProps {
+  label: string;
+  options: string[];
+  filter: MultiFilter;
+  onChange: (filter: MultiFilter) => void;
+  /** Display text of an option, the option itself by default */
+  optionLabel?: (option: string) => string;
+}
+
+// Options above which a search box is shown
+const SEARCH_THRESHOLD = 6;
+
+const MultiSelectFilter: React.FC<MultiSelectFilterProps> = ({
+  label,
+  options,
+  filter,
+  onChange,
+  optionLabel = option => option,
+}) => {
+  const { t } = useTranslation();
+  const [query, setQuery] = useState('');
+
+  const search = normalizePlaceName(query.trim());
+  const shown = search
+    ? options.filter(option => normalizePlaceName(optionLabel(option)).includes(search))
+    : options;
+
+  const toggle = (option: string) =>
+    onChange({
+      ...filter,
+      values: filter.values.includes(option)
+        ? filter.values.filter(v => v !== option)
+        : [...filter.values, option],
+    });
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-sm font-medium text-gray-700">{label}</label>
+        <div className="flex space-x-1">
+          <Button
+            size="sm"
+            variant={filter.exclude ? 'outline' : 'default'}
+            className="h-6 px-2 text-xs"
+            onClick={() => onChange({ ...filter, exclude: false })}
+          >
+            {t('filters.include')}
+          </Button>
+          <Button
+            size="sm"
+            variant={filter.exclude ? 'default' : 'outline'}
+            className="h-6 px-2 text-xs"
+            onClick={() => onChange({ ...filter, exclude: true })}
+          >
+            {t('filters.exclude')}
+          </Button>
+        </div>
+      </div>
+      {options.length > SEARCH_THRESHOLD && (
+        <Input
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder={t('filters.search')}
+          className="mb-1"
+        />
+      )}
+      <div className="max-h-40 overflow-y-auto rounded-md border p-1">
+        {shown.map(option => (
+          <label
+            key={option}
+            className="flex items-center space-x-2 px-2 py-1 text-sm rounded cursor-pointer hover:bg-gray-100"
+          >
+            <Checkbox
+              checked={filter.values.includes(option)}
+              onCheckedChange={() => toggle(option)}
+            />
+            <span className="truncate">{optionLabel(option)}</span>
+          </label>
+        ))}
+        {shown.length === 0 && (
+          <div className="px-2 py-1 text-sm text-gray-500">{t('filters.noMatches')}</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MultiSelectFilter;
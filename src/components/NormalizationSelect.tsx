@@ -0,0 +1,47 @@
+import React from 'react';
+import { useTranslation } from '../hooks/useTranslation';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { NORMALIZATIONS, type Normalization } from '../utils/normalization';
+
+interface NormalizationSelectProps {
+  normalization: Normalization;
+  onChange: (normalization: Normalization) => void;
+  /** Places are drawn below community level, where no denominators exist */
+  belowCommunities?: boolean;
+}
+
+/**
+ * Pick what metrics are divided by: inhabitants, GDP or surface area.
+ */
+const NormalizationSelect: React.FC<NormalizationSelectProps> = ({
+  normalization,
+  onChange,
+  belowCommunities = false,
+}) => {
+  const { t } = useTranslation();
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        {t('normalize.title')}
+      </label>
+      <Select value={normalization} onValueChange={value => onChange(value as Normalization)}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="bg-white z-[1400]">
+          {NORMALIZATIONS.map(option => (
+            <SelectItem key={option} value={option}>
+              {t(`normalize.${option}`)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {normalization !== 'none' && belowCommunities && (
+        <p className="mt-1 text-xs text-gray-500">{t('normalize.communitiesOnly')}</p>
+      )}
+    </div>
+  );
+};
+
+export default NormalizationSelect;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { Eye } from 'lucide-react';
+import { useTranslation } from '../hooks/useTranslation';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { PALETTE_KINDS, PALETTES, type Palette } from '../utils/palettes';
+
+interface PalettePickerProps {
+  palette: Palette;
+  onChange: (id: string) => void;
+}
+
+const Swatch: React.FC<{ palette: Palette }> = ({ palette }) => (
+  <span className="flex h-3 w-20 overflow-hidden rounded-sm">
+    {palette.colors.map(color => (
+      <span key={color} className="flex-1" style={{ backgroundColor: color }} />
+    ))}
+  </span>
+);
+
+const PalettePicker: React.FC<PalettePickerProps> = ({ palette, onChange }) => {
+  const { t } = useTranslation();
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        {t('palette.title')}
+      </label>
+      <Select value={palette.id} onValueChange={onChange}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="bg-white z-[1400]">
+          {PALETTE_KINDS.map(kind => (
+            <SelectGroup key={kind}>
+              <SelectLabel>{t(`palette.kind.${kind}`)}</SelectLabel>
+              {PALETTES.filter(p => p.kind === kind).map(p => (
+                <SelectItem key={p.id} value={p.id}>
+                  <span className="flex items-center space-x-2">
+                    <Swatch palette={p} />
+                    <span>{t(`palette.${p.id}`)}</span>
+                    {p.colorBlindSafe && (
+                      <Eye className="h-3 w-3 text-gray-500" aria-label={t('palette.colorBlindSafe')} />
+                    )}
+                  </span>
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default PalettePicker;
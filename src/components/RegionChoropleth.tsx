@@ -0,0 +1,72 @@
+import React from 'react';
+import { GeoJSON, Popup, Tooltip } from 'react-leaflet';
+import type { GeoJsonObject } from 'geojson';
+import type { LeafletMouseEvent, Path, PathOptions } from 'leaflet';
+
+import type { AggregatedRecord } from '../utils/aggregate';
+import type { Boundaries, BoundaryProperties } from '../utils/boundaries';
+
+interface RegionChoroplethProps {
+  boundaries: Boundaries;
+  /** Aggregated values keyed by boundary name, or by `keyOf` */
+  values: Map<string, AggregatedRecord>;
+  keyOf?: (properties: BoundaryProperties) => string;
+  fillColor: (item: AggregatedRecord) => string;
+  renderPopup: (item: AggregatedRecord | undefined, name: string) => React.ReactNode;
+  /** Clicking a boundary selects it; its popup content then shows on hover */
+  onSelect?: (name: string) => void;
+  /** Clicking a boundary also opens its details, by key and name */
+  onDetails?: (key: string, name: string) => void;
+}
+
+const HOVER_STYLE: PathOptions = { weight: 3, color: '#111827', fillOpacity: 0.85 };
+
+const RegionChoropleth: React.FC<RegionChoroplethProps> = ({
+  boundaries,
+  values,
+  keyOf = properties => properties.name,
+  fillColor,
+  renderPopup,
+  onSelect,
+  onDetails,
+}) => (
+  <>
+    {boundaries.features.map(feature => {
+      const { code, name } = feature.properties!;
+      const item = values.get(keyOf(feature.properties!));
+      const style: PathOptions = {
+        fillColor: item ? fillColor(item) : '#d1d5db',
+        fillOpacity: item ? 0.65 : 0.3,
+        color: 'white',
+        weight: 1,
+      };
+      return (
+        <GeoJSON
+          key={code}
+          data={feature as GeoJsonObject}
+          style={style}
+          eventHandlers={{
+            mouseover: (e: LeafletMouseEvent) => {
+              const layer = e.propagatedFrom as Path;
+              layer.setStyle(HOVER_STYLE);
+              layer.bringToFront();
+            },
+            mouseout: (e: LeafletMouseEvent) => (e.propagatedFrom as Path).setStyle(style),
+            click: () => {
+              onSelect?.(name);
+              onDetails?.(keyOf(feature.properties!), name);
+            },
+          }}
+        >
+          {onSelect ? (
+            <Tooltip sticky>{renderPopup(item, name)}</Tooltip>
+          ) : (
+            <Popup>{renderPopup(item, name)}</Popup>
+          )}
+        </GeoJSON>
+      );
+    })}
+  </>
+);
+
+export default RegionChoropleth;
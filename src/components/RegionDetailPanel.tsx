@@ -0,0 +1,192 @@
+import React, { useMemo } from 'react';
+import { X } from 'lucide-react';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { useTranslation } from '../hooks/useTranslation';
+import { humanizeLabel, humanizeValue } from '@/utils/humanize';
+import { Button } from '@/components/ui/button';
+import type { CO2Data } from './DataUpload';
+import { categoriesByYear, sumMetric, topSectors, totalsByYear } from '../utils/breakdown';
+import type { Normalization } from '../utils/normalization';
+
+interface RegionDetailPanelProps {
+  title: string;
+  metric: string;
+  /** Years on the time axis */
+  years: number[];
+  /** Filtered records of the place, every year */
+  records: CO2Data[];
+  /** Filtered records of the place over the selected period */
+  periodRecords: CO2Data[];
+  /** Period the breakdown and share cover */
+  periodLabel: string;
+  /** Total of the metric for Spain over the same period; null hides the share */
+  nationalTotal: number | null;
+  /** What the values are divided by */
+  normalization?: Normalization;
+  categoryColor: (category: string) => string;
+  onClose: () => void;
+}
+
+// Subsectors listed for the period
+const TOP_SECTORS = 10;
+
+const compact = new Intl.NumberFormat(undefined, { notation: 'compact', maximumFractionDigits: 1 });
+
+/**
+ * Charts for one place: the metric over the years, its split by sector
+ * category per year, the largest subsectors and the share of Spain's total.
+ */
+const RegionDetailPanel: React.FC<RegionDetailPanelProps> = ({
+  title,
+  metric,
+  years,
+  records,
+  periodRecords,
+  periodLabel,
+  nationalTotal,
+  normalization = 'none',
+  categoryColor,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+
+  const series = useMemo(() => totalsByYear(records, metric, years), [records, metric, years]);
+  const byCategory = useMemo(
+    () => categoriesByYear(records, metric, years),
+    [records, metric, years]
+  );
+  const sectors = useMemo(
+    () =>
+      topSectors(periodRecords, metric, TOP_SECTORS).map(s => ({
+        ...s,
+        label: t(`value.${s.sector}`),
+      })),
+    [periodRecords, metric, t]
+  );
+  const total = useMemo(() => sumMetric(periodRecords, metric), [periodRecords, metric]);
+  const share = nationalTotal ? (total / nationalTotal) * 100 : null;
+
+  const format = (value: number) => {
+    const hv = humanizeValue(value, 2, normalization);
+    return `${hv.value} ${t(hv.unitKey)}`;
+  };
+  const categoryLabel = (category: string) =>
+    category ? t(`category.${category}`) : t('map.noCategory');
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-start justify-between border-b px-4 py-3">
+        <div>
+          <h2 className="font-semibold text-gray-900">{title}</h2>
+          <div className="text-xs text-gray-500">{humanizeLabel(metric)}</div>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose} aria-label={t('detail.close')}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 space-y-5 overflow-y-auto px-4 py-3">
+        {/* Share of Spain */}
+        {nationalTotal !== null && (
+          <section>
+            <h3 className="text-sm font-medium text-gray-700">{t('detail.share')}</h3>
+            <div className="text-xs text-gray-500 mb-1">{periodLabel}</div>
+            <div className="flex items-baseline justify-between text-sm">
+              <span>{format(total)}</span>
+              <span className="font-medium">
+                {share === null ? t('map.na') : `${share.toLocaleString(undefined, { maximumFractionDigits: 1 })} %`}
+              </span>
+            </div>
+            {share !== null && (
+              <div className="mt-1 h-2 rounded-full bg-gray-200">
+                <div
+                  className="h-2 rounded-full bg-green-600"
+                  style={{ width: `${Math.max(0, Math.min(100, share))}%` }}
+                />
+              </div>
+            )}
+          </section>
+        )}
+
+        {/* Metric over the years */}
+        <section>
+          <h3 className="text-sm font-medium text-gray-700 mb-1">{t('detail.overTime')}</h3>
+          <ResponsiveContainer width="100%" height={160}>
+            <LineChart data={series} margin={{ top: 5, right: 10, bottom: 0, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="year" tick={{ fontSize: 10 }} />
+              <YAxis tick={{ fontSize: 10 }} width={40} tickFormatter={v => compact.format(v)} />
+              <Tooltip formatter={(v: number) => format(v)} />
+              <Line
+                type="monotone"
+                dataKey="value"
+                name={humanizeLabel(metric)}
+                stroke="#16a34a"
+                strokeWidth={2}
+                dot={{ r: 2 }}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </section>
+
+        {/* Sector categories per year */}
+        <section>
+          <h3 className="text-sm font-medium text-gray-700 mb-1">{t('detail.byCategory')}</h3>
+          <ResponsiveContainer width="100%" height={180}>
+            <BarChart data={byCategory.rows} margin={{ top: 5, right: 10, bottom: 0, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="year" tick={{ fontSize: 10 }} />
+              <YAxis tick={{ fontSize: 10 }} width={40} tickFormatter={v => compact.format(v)} />
+              <Tooltip formatter={(v: number) => format(v)} wrapperStyle={{ fontSize: 11 }} />
+              {byCategory.categories.map(category => (
+                <Bar
+                  key={category}
+                  dataKey={category}
+                  name={categoryLabel(category)}
+                  stackId="categories"
+                  fill={categoryColor(category)}
+                />
+              ))}
+            </BarChart>
+          </ResponsiveContainer>
+        </section>
+
+        {/* Largest subsectors */}
+        <section>
+          <h3 className="text-sm font-medium text-gray-700">{t('detail.topSectors')}</h3>
+          <div className="text-xs text-gray-500 mb-1">{periodLabel}</div>
+          {sectors.length === 0 ? (
+            <div className="text-xs text-gray-500">{t('map.noData')}</div>
+          ) : (
+            <ResponsiveContainer width="100%" height={sectors.length * 24 + 10}>
+              <BarChart data={sectors} layout="vertical" margin={{ top: 0, right: 10, bottom: 0, left: 0 }}>
+                <XAxis type="number" hide />
+                <YAxis
+                  type="category"
+                  dataKey="label"
+                  width={130}
+                  tick={{ fontSize: 10 }}
+                  interval={0}
+                />
+                <Tooltip formatter={(v: number) => format(v)} />
+                <Bar dataKey="value" name={humanizeLabel(metric)} fill="#16a34a" />
+              </BarChart>
+            </ResponsiveContainer>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default RegionDetailPanel;
@@ -0,0 +1,145 @@
+import React from 'react';
+import { useTranslation } from '../hooks/useTranslation';
+import { formatPercent, humanizeLabel, humanizeValue } from '@/utils/humanize';
+import { Button } from '@/components/ui/button';
+import type { AggregatedRecord } from '../utils/aggregate';
+import { datasetColor, type WorkspaceDataset } from '../utils/workspace';
+import type { ChangeSettings, ChangeValues } from '../utils/change';
+import { isMissingReference, type Normalization } from '../utils/normalization';
+
+interface RegionPopupContentProps {
+  item: AggregatedRecord;
+  /** Heading, the item's region by default */
+  title?: string;
+  /** Period the values cover, in place of the item's year */
+  period?: string;
+  selectedMetrics: string[];
+  datasets: WorkspaceDataset[];
+  /** Name the dataset the item belongs to, in separate view */
+  showDataset: boolean;
+  /** Break the first metric down by active dataset, in merged view */
+  showBreakdown: boolean;
+  /** Zoom into the region's provinces */
+  onDrillDown?: () => void;
+  /** On the change map: the years compared and each metric's totals in them */
+  change?: { settings: ChangeSettings; values: Record<string, ChangeValues> };
+  /** What the values are divided by */
+  normalization?: Normalization;
+}
+
+const RegionPopupContent: React.FC<RegionPopupContentProps> = ({
+  item,
+  title = item.region,
+  period,
+  selectedMetrics,
+  datasets,
+  showDataset,
+  showBreakdown,
+  onDrillDown,
+  change,
+  normalization = 'none',
+}) => {
+  const { t } = useTranslation();
+  const metric = selectedMetrics[0];
+
+  return (
+    <div className="p-2">
+      <h3 className="font-semibold text-gray-900 mb-1">
+        {title}
+      </h3>
+      {showDataset && item.dataset && (
+        <div className="text-xs text-gray-500 mb-1">
+          {datasets.find(d => d.id === item.dataset)?.name}
+        </div>
+      )}
+      {change
+        ? selectedMetrics.map(m => {
+            const { baseYear, compareYear, measure } = change.settings;
+            const { base, compare } = change.values[m] ?? {};
+            const format = (value: number | undefined) => {
+              if (value === undefined) return t('map.noData');
+              const hv = humanizeValue(value, 2, normalization);
+              return `${hv.value} ${t(hv.unitKey)}`;
+            };
+            const delta = item[m];
+            return (
+              <div key={m} className="text-sm text-gray-600">
+                <div className="font-medium">{humanizeLabel(m)}</div>
+                <div>{baseYear}: {format(base)}</div>
+                <div>{compareYear}: {format(compare)}</div>
+                <div>
+                  <span className="font-medium">{t('change.delta')}:</span>{' '}
+                  {typeof delta !== 'number'
+                    ? t('map.na')
+                    : measure === 'percent'
+                      ? formatPercent(delta)
+                      : `${delta > 0 ? '+' : ''}${format(delta)}`}
+                </div>
+              </div>
+            );
+          })
+        : selectedMetrics.map(m => (
+            <div key={m} className="text-sm text-gray-600">
+              <span className="font-medium">{humanizeLabel(m)}:</span>{' '}
+              {(() => {
+                if (isMissingReference(item[m])) return t('normalize.missing');
+                if (typeof item[m] !== 'number') return t('map.na');
+                const hv = humanizeValue(item[m] as number, 2, normalization);
+                return `${hv.value} ${t(hv.unitKey)}`;
+              })()}
+            </div>
+          ))}
+      {item.sectorCategory && (
+        <div className="text-sm text-gray-600">
+          <span className="font-medium">{t('filters.category')}:</span>{' '}
+          {t(`category.${item.sectorCategory}`)}
+        </div>
+      )}
+      {item.sector && (
+        <div className="text-sm text-gray-600">
+          <span className="font-medium">{t('filters.value')}:</span>{' '}
+          {t(`value.${item.sector}`)}
+        </div>
+      )}
+      {period ? (
+        <div className="text-sm text-gray-600">{period}</div>
+      ) : item.year && (
+        <div className="text-sm text-gray-600">
+          <span className="font-medium">{t('filters.year')}:</span> {item.year}
+        </div>
+      )}
+      {showBreakdown && metric && (
+        <div className="mt-2 pt-1 border-t">
+          <div className="text-xs font-medium text-gray-700">
+            {t('map.bySource', { metric: humanizeLabel(metric) })}
+          </div>
+          {datasets.filter(d => d.active).map(dataset => (
+            <div key={dataset.id} className="flex items-center space-x-1 text-xs text-gray-600">
+              <span
+                className="w-2 h-2 rounded-full"
+                style={{ backgroundColor: datasetColor(datasets, dataset.id) }}
+              />
+              <span>{dataset.name}:</span>
+              <span>
+                {(() => {
+                  const value = item.sources[dataset.id]?.[metric];
+                  if (value === undefined) return t('map.na');
+                  if (isMissingReference(value)) return t('normalize.missing');
+                  const hv = humanizeValue(value, 2, normalization);
+                  return `${hv.value} ${t(hv.unitKey)}`;
+                })()}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+      {onDrillDown && (
+        <Button variant="link" size="sm" className="h-auto p-0 mt-1" onClick={onDrillDown}>
+          {t('map.showProvinces')}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default RegionPopupContent;
@@ -0,0 +1,109 @@
+import React, { useMemo } from 'react';
+import { Download, X } from 'lucide-react';
+import { useTranslation } from '../hooks/useTranslation';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  rejectedRowsToCSV,
+  type IngestDiagnostics,
+  type RejectedRow,
+  type RejectReason,
+} from '../utils/ingest';
+import { downloadText } from '../utils/download';
+
+interface RejectedRowsReportProps {
+  diagnostics: IngestDiagnostics;
+  fileName?: string;
+  onClose: () => void;
+}
+
+// Rows listed per reason; the download always contains all of them
+const MAX_ROWS_SHOWN = 20;
+
+const RejectedRowsReport: React.FC<RejectedRowsReportProps> = ({
+  diagnostics,
+  fileName,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  const { headers, rejected, accepted } = diagnostics;
+
+  const groups = useMemo(() => {
+    const map = new Map<RejectReason, RejectedRow[]>();
+    rejected.forEach(row => {
+      const list = map.get(row.reason) ?? [];
+      list.push(row);
+      map.set(row.reason, list);
+    });
+    return Array.from(map.entries()).sort((a, b) => b[1].length - a[1].length);
+  }, [rejected]);
+
+  const handleDownload = () => {
+    const base = fileName ? fileName.replace(/\.[^.]+$/, '') : 'upload';
+    downloadText(`${base}_rejected.csv`, rejectedRowsToCSV(diagnostics));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-900">{t('report.title')}</h3>
+        <Button variant="ghost" size="icon" onClick={onClose} className="h-6 w-6">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      <p className="text-sm text-gray-600">
+        {t('report.summary', { accepted, rejected: rejected.length })}
+      </p>
+      {diagnostics.unknownColumns.length > 0 && (
+        <p className="text-xs text-gray-500">
+          {t('report.unknownColumns', { columns: diagnostics.unknownColumns.join(', ') })}
+        </p>
+      )}
+
+      {groups.map(([reason, rows]) => (
+        <details key={reason} className="border rounded-md">
+          <summary className="flex items-center justify-between cursor-pointer p-2 text-sm">
+            <span>{t(`report.reason.${reason}`)}</span>
+            <Badge variant="secondary">{rows.length}</Badge>
+          </summary>
+          <div className="overflow-x-auto border-t">
+            <table className="text-xs min-w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="p-1 text-left font-medium">{t('report.line')}</th>
+                  {headers.map((header, idx) => (
+                    <th key={idx} className="p-1 text-left font-medium">{header}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.slice(0, MAX_ROWS_SHOWN).map(row => (
+                  <tr key={row.line} className="border-t">
+                    <td className="p-1 text-gray-500">{row.line}</td>
+                    {row.values.map((value, idx) => (
+                      <td key={idx} className="p-1 text-gray-700 truncate max-w-[8rem]">
+                        {value}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {rows.length > MAX_ROWS_SHOWN && (
+              <p className="p-2 text-xs text-gray-500">
+                {t('report.more', { count: rows.length - MAX_ROWS_SHOWN })}
+              </p>
+            )}
+          </div>
+        </details>
+      ))}
+
+      <Button variant="outline" onClick={handleDownload} className="w-full">
+        <Download className="h-4 w-4 mr-2" />
+        {t('report.download')}
+      </Button>
+    </div>
+  );
+};
+
+export default RejectedRowsReport;
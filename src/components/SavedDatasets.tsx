@@ -0,0 +1,165 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Check, FolderOpen, Pencil, Star, Trash2, X } from 'lucide-react';
+import { useTranslation } from '../hooks/useTranslation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from '@/components/ui/sonner-toast';
+import type { CO2Data } from './DataUpload';
+import {
+  deleteDataset,
+  getDefaultDatasetId,
+  listDatasets,
+  loadDataset,
+  renameDataset,
+  setDefaultDatasetId,
+  subscribeDatasets,
+  type StoredDatasetMeta,
+} from '../utils/datasetStore';
+
+interface SavedDatasetsProps {
+  onOpen: (data: CO2Data[], dataset: StoredDatasetMeta) => void;
+}
+
+const SavedDatasets: React.FC<SavedDatasetsProps> = ({ onOpen }) => {
+  const { t, language } = useTranslation();
+  const [datasets, setDatasets] = useState<StoredDatasetMeta[]>([]);
+  const [defaultId, setDefaultId] = useState<string | null>(getDefaultDatasetId);
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+
+  const errorMessage = useCallback(
+    (error: unknown) => (error instanceof Error ? error.message : t('upload.unknownError')),
+    [t]
+  );
+
+  const refresh = useCallback(async () => {
+    try {
+      setDatasets(await listDatasets());
+      setDefaultId(getDefaultDatasetId());
+    } catch (error) {
+      toast.error(t('datasets.listError', { error: errorMessage(error) }));
+    }
+  }, [errorMessage, t]);
+
+  useEffect(() => {
+    refresh();
+    return subscribeDatasets(refresh);
+  }, [refresh]);
+
+  const handleOpen = async (dataset: StoredDatasetMeta) => {
+    try {
+      const data = await loadDataset(dataset.id);
+      if (!data) throw new Error(t('datasets.missing'));
+      onOpen(data, dataset);
+    } catch (error) {
+      toast.error(t('datasets.openError', { error: errorMessage(error) }));
+    }
+  };
+
+  const handleRename = async () => {
+    if (!editing) return;
+    const name = editing.name.trim();
+    setEditing(null);
+    if (!name) return;
+    try {
+      await renameDataset(editing.id, name);
+    } catch (error) {
+      toast.error(t('datasets.renameError', { error: errorMessage(error) }));
+    }
+  };
+
+  const handleDelete = async (dataset: StoredDatasetMeta) => {
+    try {
+      await deleteDataset(dataset.id);
+      toast.success(t('datasets.deleted', { name: dataset.name }));
+    } catch (error) {
+      toast.error(t('datasets.deleteError', { error: errorMessage(error) }));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold text-gray-900">{t('datasets.title')}</h3>
+      {datasets.length === 0 && (
+        <p className="text-sm text-gray-500">{t('datasets.empty')}</p>
+      )}
+      <ul className="space-y-2">
+        {datasets.map(dataset => (
+          <li key={dataset.id} className="border rounded-md p-2 space-y-1">
+            {editing?.id === dataset.id ? (
+              <div className="flex items-center space-x-1">
+                <Input
+                  value={editing.name}
+                  onChange={e => setEditing({ ...editing, name: e.target.value })}
+                  onKeyDown={e => e.key === 'Enter' && handleRename()}
+                  className="h-8"
+                  autoFocus
+                />
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={handleRename}>
+                  <Check className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setEditing(null)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium truncate" title={dataset.name}>
+                  {dataset.name}
+                </span>
+                <div className="flex items-center shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    title={t('datasets.open')}
+                    onClick={() => handleOpen(dataset)}
+                  >
+                    <FolderOpen className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    title={defaultId === dataset.id ? t('datasets.unsetDefault') : t('datasets.setDefault')}
+                    onClick={() => setDefaultDatasetId(defaultId === dataset.id ? null : dataset.id)}
+                  >
+                    <Star
+                      className={`h-4 w-4 ${defaultId === dataset.id ? 'fill-yellow-400 text-yellow-500' : ''}`}
+                    />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    title={t('datasets.rename')}
+                    onClick={() => setEditing({ id: dataset.id, name: dataset.name })}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    title={t('datasets.delete')}
+                    onClick={() => handleDelete(dataset)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+            <p className="text-xs text-gray-500">
+              {t('datasets.details', {
+                date: new Date(dataset.uploadedAt).toLocaleDateString(language),
+                rows: dataset.rowCount.toLocaleString(language),
+                file: dataset.sourceFile,
+              })}
+            </p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SavedDatasets;
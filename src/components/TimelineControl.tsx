@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { Pause, Play, SkipBack, SkipForward } from 'lucide-react';
+import { useTranslation } from '../hooks/useTranslation';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Slider } from '@/components/ui/slider';
+
+interface TimelineControlProps {
+  years: number[];
+  /** Year shown, or null for all years together */
+  year: number | null;
+  onYearChange: (year: number | null) => void;
+  /** Keep the colour and size scale fixed across years */
+  fixedScale: boolean;
+  onFixedScaleChange: (fixed: boolean) => void;
+}
+
+// Playback speeds, as multiples of one year per FRAME_MS
+const SPEEDS = [0.5, 1, 2, 4];
+const FRAME_MS = 1500;
+
+const TimelineControl: React.FC<TimelineControlProps> = ({
+  years,
+  year,
+  onYearChange,
+  fixedScale,
+  onFixedScaleChange,
+}) => {
+  const { t } = useTranslation();
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const index = year === null ? -1 : years.indexOf(year);
+  const last = years.length - 1;
+
+  // Advance one year per frame, stopping on the last one
+  useEffect(() => {
+    if (!playing) return;
+    if (index >= last) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => onYearChange(years[index + 1]), FRAME_MS / speed);
+    return () => clearTimeout(timer);
+  }, [playing, index, last, years, speed, onYearChange]);
+
+  const togglePlay = () => {
+    if (playing) {
+      setPlaying(false);
+      return;
+    }
+    // Start over from the first year unless paused part way
+    if (index < 0 || index >= last) onYearChange(years[0]);
+    setPlaying(true);
+  };
+
+  const step = (delta: number) => {
+    setPlaying(false);
+    if (index < 0) {
+      onYearChange(delta > 0 ? years[0] : years[last]);
+      return;
+    }
+    onYearChange(years[Math.max(0, Math.min(last, index + delta))]);
+  };
+
+  return (
+    <div className="rounded-md border bg-white/95 backdrop-blur-sm px-3 py-2 shadow space-y-2">
+      <div className="flex items-center space-x-2">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          title={t('timeline.previous')}
+          onClick={() => step(-1)}
+          disabled={index === 0}
+        >
+          <SkipBack className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          title={playing ? t('timeline.pause') : t('timeline.play')}
+          onClick={togglePlay}
+        >
+          {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          title={t('timeline.next')}
+          onClick={() => step(1)}
+          disabled={index === last}
+        >
+          <SkipForward className="h-4 w-4" />
+        </Button>
+        <Slider
+          className="flex-1 min-w-24"
+          min={0}
+          max={last}
+          step={1}
+          value={[index < 0 ? last : index]}
+          onValueChange={([value]) => {
+            setPlaying(false);
+            onYearChange(years[value]);
+          }}
+        />
+        <span className="w-20 text-center text-sm font-medium">
+          {year ?? t('filters.allYears')}
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 px-2"
+          title={t('timeline.speed')}
+          onClick={() => setSpeed(SPEEDS[(SPEEDS.indexOf(speed) + 1) % SPEEDS.length])}
+        >
+          {speed}×
+        </Button>
+      </div>
+      <div className="flex items-center justify-between text-xs text-gray-600">
+        <label className="flex items-center space-x-2 cursor-pointer">
+          <Checkbox
+            checked={fixedScale}
+            onCheckedChange={checked => onFixedScaleChange(checked === true)}
+          />
+          <span>{t('timeline.fixedScale')}</span>
+        </label>
+        {year !== null && (
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0 text-xs"
+            onClick={() => {
+              setPlaying(false);
+              onYearChange(null);
+            }}
+          >
+            {t('filters.allYears')}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TimelineControl;
@@ -0,0 +1,88 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { useTranslation } from '../hooks/useTranslation';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { datasetColor, type ViewMode, type WorkspaceDataset } from '../utils/workspace';
+
+interface WorkspacePanelProps {
+  datasets: WorkspaceDataset[];
+  viewMode: ViewMode;
+  onViewModeChange: (mode: ViewMode) => void;
+  onToggle: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+const WorkspacePanel: React.FC<WorkspacePanelProps> = ({
+  datasets,
+  viewMode,
+  onViewModeChange,
+  onToggle,
+  onRemove,
+}) => {
+  const { t, language } = useTranslation();
+
+  if (datasets.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold text-gray-900">{t('workspace.title')}</h3>
+      <ul className="space-y-1">
+        {datasets.map(dataset => (
+          <li key={dataset.id} className="flex items-center space-x-2">
+            <Checkbox
+              id={`workspace-${dataset.id}`}
+              checked={dataset.active}
+              onCheckedChange={() => onToggle(dataset.id)}
+            />
+            <span
+              className="w-3 h-3 rounded-full shrink-0"
+              style={{ backgroundColor: datasetColor(datasets, dataset.id) }}
+            />
+            <label
+              htmlFor={`workspace-${dataset.id}`}
+              className="flex-1 text-sm truncate cursor-pointer"
+              title={dataset.name}
+            >
+              {dataset.name}
+            </label>
+            <span className="text-xs text-gray-500 shrink-0">
+              {t('workspace.records', { count: dataset.data.length.toLocaleString(language) })}
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              title={t('workspace.remove')}
+              onClick={() => onRemove(dataset.id)}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+      {datasets.length > 1 && (
+        <div className="flex space-x-2">
+          <Button
+            size="sm"
+            variant={viewMode === 'merged' ? 'default' : 'outline'}
+            className="flex-1"
+            onClick={() => onViewModeChange('merged')}
+          >
+            {t('workspace.merged')}
+          </Button>
+          <Button
+            size="sm"
+            variant={viewMode === 'separate' ? 'default' : 'outline'}
+            className="flex-1"
+            onClick={() => onViewModeChange('separate')}
+          >
+            {t('workspace.separate')}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WorkspacePanel;
@@ -21,17 +21,29 @@ const translations: Translations = {
   // Filters
   'filters.title': { es: 'Filtros', en: 'Filters' },
   'filters.region': { es: 'Región', en: 'Region' },
+  'filters.province': { es: 'Provincia', en: 'Province' },
+  'filters.municipality': { es: 'Municipio', en: 'Municipality' },
+  'filters.searchMunicipality': { es: 'Buscar municipio...', en: 'Search municipality...' },
+  'filters.noMunicipalities': { es: 'Ningún municipio coincide', en: 'No matching municipality' },
   'filters.year': { es: 'Año', en: 'Year' },
   'filters.sector': { es: 'Sector', en: 'Sector' },
   'filters.category': { es: 'Categoría', en: 'Category' },
   'filters.value': { es: 'Valor', en: 'Value' },
   'filters.reset': { es: 'Restablecer', en: 'Reset' },
   'filters.apply': { es: 'Aplicar', en: 'Apply' },
-  'filters.allRegions': { es: 'Todas las regiones', en: 'All regions' },
+  'filters.allProvinces': { es: 'Todas las provincias', en: 'All provinces' },
   'filters.allYears': { es: 'Todos los años', en: 'All years' },
-  'filters.allCategories': { es: 'Todas las categorías', en: 'All categories' },
-  'filters.allValues': { es: 'Todos los valores', en: 'All values' },
+  'filters.yearRange': { es: 'Años', en: 'Years' },
+  'filters.firstYear': { es: 'Desde el primero', en: 'From the first' },
+  'filters.lastYear': { es: 'Hasta el último', en: 'To the last' },
+  'filters.yearMode': { es: 'Combinar los años', en: 'Combine years' },
   'filters.active': { es: 'Filtros activos', en: 'Active filters' },
+  'filters.include': { es: 'Incluir', en: 'Include' },
+  'filters.exclude': { es: 'Excluir', en: 'Exclude' },
+  'filters.not': { es: 'no', en: 'not' },
+  'filters.search': { es: 'Buscar...', en: 'Search...' },
+  'filters.noMatches': { es: 'Sin coincidencias', en: 'No matches' },
+  'filters.removeValue': { es: 'Quitar', en: 'Remove' },
   'filters.none': { es: 'Ninguno', en: 'None' },
 
   // Data
@@ -46,9 +58,15 @@ const translations: Translations = {
   'map.unitTonnes': { es: 't CO₂', en: 't CO₂' },
   'map.unitMillions': { es: 'millones t CO₂', en: 'M t CO₂' },
   'map.unitBillions': { es: 'billones t CO₂', en: 'bn t CO₂' },
-  'map.high': { es: 'Alta emisión', en: 'High emission' },
-  'map.medium': { es: 'Media emisión', en: 'Medium emission' },
-  'map.low': { es: 'Baja emisión', en: 'Low emission' },
+  'map.unitTonnes.perCapita': { es: 't CO₂/hab.', en: 't CO₂/inhabitant' },
+  'map.unitTonnes.perGdp': { es: 't CO₂/M€ PIB', en: 't CO₂/M€ GDP' },
+  'map.unitTonnes.perArea': { es: 't CO₂/km²', en: 't CO₂/km²' },
+  'map.unitMillions.perCapita': { es: 'millones t CO₂/hab.', en: 'M t CO₂/inhabitant' },
+  'map.unitMillions.perGdp': { es: 'millones t CO₂/M€ PIB', en: 'M t CO₂/M€ GDP' },
+  'map.unitMillions.perArea': { es: 'millones t CO₂/km²', en: 'M t CO₂/km²' },
+  'map.unitBillions.perCapita': { es: 'billones t CO₂/hab.', en: 'bn t CO₂/inhabitant' },
+  'map.unitBillions.perGdp': { es: 'billones t CO₂/M€ PIB', en: 'bn t CO₂/M€ GDP' },
+  'map.unitBillions.perArea': { es: 'billones t CO₂/km²', en: 'bn t CO₂/km²' },
   'map.total': { es: 'Total Emisiones', en: 'Total Emissions' },
   'map.selectMetrics': { es: 'Seleccionar métricas', en: 'Select metrics' },
   'map.selectMetricPlaceholder': { es: 'Seleccionar métrica…', en: 'Select metric…' },
@@ -57,7 +75,156 @@ const translations: Translations = {
     es: 'Total España: {value} {unit}',
     en: 'Spain total: {value} {unit}',
   },
+  'map.spainTotalTitle': { es: 'Total España', en: 'Spain total' },
+  'map.outsideTotal': {
+    es: 'Fuera de las comunidades (marítimo e internacional): {value} {unit}',
+    en: 'Outside the communities (offshore and international): {value} {unit}',
+  },
   'map.na': { es: 'N/D', en: 'N/A' },
+  'map.noData': { es: 'Sin datos', en: 'No data' },
+  'map.noCategory': { es: 'Sin categoría', en: 'No category' },
+  'map.showProvinces': { es: 'Ver provincias', en: 'Show provinces' },
+  'map.noProvinceData': {
+    es: 'Los datos de esta región no indican la provincia',
+    en: 'The data for this region has no province',
+  },
+  'map.mode': { es: 'Vista', en: 'View' },
+  'map.mode.bubbles': { es: 'Burbujas', en: 'Bubbles' },
+  'map.mode.choropleth': { es: 'Coropletas', en: 'Choropleth' },
+  'map.mode.donuts': { es: 'Anillos', en: 'Donuts' },
+  'map.bySource': { es: '{metric} por fuente', en: '{metric} by source' },
+  'map.level': { es: 'Nivel geográfico', en: 'Geography level' },
+  'map.level.region': { es: 'Comunidades', en: 'Communities' },
+  'map.level.province': { es: 'Provincias', en: 'Provinces' },
+  'map.level.municipality': { es: 'Municipios', en: 'Municipalities' },
+  'map.zoomForMunicipalities': {
+    es: 'Acerca el mapa para ver los municipios',
+    en: 'Zoom in to see municipalities',
+  },
+
+  // Temporal aggregation
+  'temporal.sum': { es: 'Suma', en: 'Sum' },
+  'temporal.average': { es: 'Media anual', en: 'Annual average' },
+  'temporal.latest': { es: 'Último año', en: 'Latest year' },
+  'temporal.change': { es: 'Cambio del primero al último', en: 'First-to-last change' },
+  'temporal.legend.sum': { es: 'Suma {range}', en: 'Sum {range}' },
+  'temporal.legend.average': { es: 'Media anual {range}', en: 'Annual average {range}' },
+  'temporal.legend.latest': { es: 'Último año: {year}', en: 'Latest year: {year}' },
+  'temporal.legend.change': { es: 'Cambio {first} → {last}', en: 'Change {first} → {last}' },
+
+  // Classification
+  'classification.title': { es: 'Clasificación', en: 'Classification' },
+  'classification.classes': { es: 'Clases', en: 'Classes' },
+  'classification.quantile': { es: 'Cuantiles', en: 'Quantiles' },
+  'classification.equalInterval': { es: 'Intervalos iguales', en: 'Equal interval' },
+  'classification.naturalBreaks': { es: 'Cortes naturales', en: 'Natural breaks' },
+  'classification.logarithmic': { es: 'Logarítmica', en: 'Logarithmic' },
+  'classification.custom': { es: 'Cortes propios', en: 'Custom breaks' },
+  'classification.customPlaceholder': {
+    es: 'Valores de corte, p. ej. 1000, 50000',
+    en: 'Break values, e.g. 1000, 50000',
+  },
+
+  // Emissions flows
+  'flow.title': { es: 'Balance', en: 'Balance' },
+  'flow.net': { es: 'Neto', en: 'Net' },
+  'flow.gross': { es: 'Bruto', en: 'Gross' },
+  'flow.removals': { es: 'Absorciones', en: 'Removals' },
+  'flow.total.gross': {
+    es: 'Emisiones brutas: {value} {unit}',
+    en: 'Gross emissions: {value} {unit}',
+  },
+  'flow.total.removals': { es: 'Absorciones: {value} {unit}', en: 'Removals: {value} {unit}' },
+  'flow.total.net': { es: 'Neto: {value} {unit}', en: 'Net: {value} {unit}' },
+
+  // Place details
+  'detail.close': { es: 'Cerrar detalles', en: 'Close details' },
+  'detail.share': { es: 'Parte del total de España', en: 'Share of the Spain total' },
+  'detail.overTime': { es: 'Evolución por año', en: 'Over the years' },
+  'detail.byCategory': { es: 'Categorías por año', en: 'Categories per year' },
+  'detail.topSectors': { es: 'Diez subsectores principales', en: 'Top ten subsectors' },
+
+  // Change map
+  'change.title': { es: 'Cambio entre dos años', en: 'Change between two years' },
+  'change.baseYear': { es: 'Año base', en: 'Base year' },
+  'change.compareYear': { es: 'Año de comparación', en: 'Comparison year' },
+  'change.measure.absolute': { es: 'Absoluto', en: 'Absolute' },
+  'change.measure.percent': { es: 'Porcentaje', en: 'Percent' },
+  'change.delta': { es: 'Cambio', en: 'Change' },
+  'change.legend.absolute': {
+    es: 'Cambio de {base} a {compare}',
+    en: 'Change from {base} to {compare}',
+  },
+  'change.legend.percent': {
+    es: 'Cambio % de {base} a {compare}',
+    en: '% change from {base} to {compare}',
+  },
+
+  // Normalization
+  'normalize.title': { es: 'Normalizar', en: 'Normalize' },
+  'normalize.none': { es: 'Valores absolutos', en: 'Absolute values' },
+  'normalize.perCapita': { es: 'Por habitante', en: 'Per inhabitant' },
+  'normalize.perGdp': { es: 'Por millón de € de PIB', en: 'Per million € of GDP' },
+  'normalize.perArea': { es: 'Por km²', en: 'Per km²' },
+  'normalize.missing': {
+    es: 'Sin datos de referencia',
+    en: 'No reference data',
+  },
+  'normalize.communitiesOnly': {
+    es: 'Los datos de referencia son por comunidad autónoma',
+    en: 'Reference data is by autonomous community',
+  },
+
+  // Comparison
+  'compare.open': { es: 'Comparar', en: 'Compare' },
+  'compare.title': { es: 'Comparación', en: 'Comparison' },
+  'compare.by.region': { es: 'Dos regiones', en: 'Two regions' },
+  'compare.by.year': { es: 'Dos años', en: 'Two years' },
+  'compare.scope.region': {
+    es: 'regiones en el periodo filtrado',
+    en: 'regions over the filtered period',
+  },
+  'compare.scope.year': {
+    es: 'años en los lugares filtrados',
+    en: 'years over the filtered places',
+  },
+  'compare.side.a': { es: 'Selección A', en: 'Selection A' },
+  'compare.side.b': { es: 'Selección B', en: 'Selection B' },
+  'compare.difference': { es: 'Diferencia (B − A)', en: 'Difference (B − A)' },
+  'compare.percent': { es: 'Diferencia %', en: 'Difference %' },
+  'compare.total': { es: 'Total', en: 'Total' },
+  'compare.download': { es: 'Descargar CSV', en: 'Download CSV' },
+
+  // Palettes
+  'palette.title': { es: 'Paleta de colores', en: 'Colour palette' },
+  'palette.kind.sequential': { es: 'Secuenciales', en: 'Sequential' },
+  'palette.kind.diverging': { es: 'Divergentes', en: 'Diverging' },
+  'palette.kind.categorical': { es: 'Categóricas', en: 'Categorical' },
+  'palette.colorBlindSafe': {
+    es: 'Apta para daltonismo',
+    en: 'Colour-blind safe',
+  },
+  'palette.traffic': { es: 'Semáforo', en: 'Traffic light' },
+  'palette.viridis': { es: 'Viridis', en: 'Viridis' },
+  'palette.cividis': { es: 'Cividis', en: 'Cividis' },
+  'palette.ylOrRd': { es: 'Amarillo-rojo', en: 'Yellow-red' },
+  'palette.blues': { es: 'Azules', en: 'Blues' },
+  'palette.blueRed': { es: 'Azul-rojo', en: 'Blue-red' },
+  'palette.purpleOrange': { es: 'Morado-naranja', en: 'Purple-orange' },
+  'palette.tealBrown': { es: 'Turquesa-marrón', en: 'Teal-brown' },
+  'palette.okabeIto': { es: 'Okabe-Ito', en: 'Okabe-Ito' },
+  'palette.tableau': { es: 'Tableau', en: 'Tableau' },
+
+  // Timeline
+  'timeline.play': { es: 'Reproducir', en: 'Play' },
+  'timeline.pause': { es: 'Pausa', en: 'Pause' },
+  'timeline.previous': { es: 'Año anterior', en: 'Previous year' },
+  'timeline.next': { es: 'Año siguiente', en: 'Next year' },
+  'timeline.speed': { es: 'Velocidad', en: 'Speed' },
+  'timeline.fixedScale': {
+    es: 'Escala fija para todos los años',
+    en: 'Fixed scale across years',
+  },
 
   // Mobile/Side menu labels
   'menu.mapControls': { es: 'Controles del mapa', en: 'Map Controls' },
@@ -67,23 +234,88 @@ const translations: Translations = {
   'menu.filters': { es: 'Filtros', en: 'Filters' },
 
   // Upload
-  'upload.title': { es: 'Subir Archivo CSV', en: 'Upload CSV File' },
+  'upload.title': { es: 'Subir archivo de datos', en: 'Upload data file' },
   'upload.button': { es: 'Seleccionar archivo', en: 'Select file' },
   'upload.processing': { es: 'Procesando...', en: 'Processing...' },
   'upload.default': { es: 'Cargar datos ClimateTrace', en: 'Load ClimateTrace data' },
   'upload.instructionsTitle': { es: 'Formato esperado del CSV:', en: 'Expected CSV format:' },
   'upload.instruction.columns': { es: 'Columnas: region, year, sector, emissions', en: 'Columns: region, year, sector, emissions' },
   'upload.instruction.optional': { es: 'Opcionalmente: lat, lng para coordenadas', en: 'Optional: lat, lng for coordinates' },
+  'upload.instruction.province': {
+    es: 'Opcionalmente: province, con el nombre o el código INE (puede sustituir a region)',
+    en: 'Optional: province, as a name or INE code (can replace region)',
+  },
   'upload.instruction.headers': { es: 'Primera fila debe contener los encabezados', en: 'First row must contain headers' },
-  'upload.invalidFile': { es: 'Por favor, selecciona un archivo CSV válido', en: 'Please select a valid CSV file' },
+  'upload.instruction.formats': {
+    es: 'Formatos: CSV, Excel (.xlsx, .xls), OpenDocument (.ods), GeoJSON y paquetes de país de ClimateTrace (.zip)',
+    en: 'Formats: CSV, Excel (.xlsx, .xls), OpenDocument (.ods), GeoJSON and ClimateTrace country packages (.zip)',
+  },
+  'upload.invalidFile': {
+    es: 'Por favor, selecciona un archivo CSV, Excel, ODS, GeoJSON o ZIP válido',
+    en: 'Please select a valid CSV, Excel, ODS, GeoJSON or ZIP file',
+  },
+  'upload.sheet': { es: 'Hoja', en: 'Sheet' },
+  'upload.zipDescription': {
+    es: 'Paquete de ClimateTrace: {name}. Las fuentes se agregarán por lugar, año y sector.',
+    en: 'ClimateTrace package: {name}. Sources will be aggregated by place, year and sector.',
+  },
+  'upload.zipLevel': { es: 'Agregar por', en: 'Aggregate by' },
+  'upload.zipLevel.region': { es: 'Comunidad autónoma', en: 'Autonomous community' },
+  'upload.zipLevel.municipality': { es: 'Municipio', en: 'Municipality' },
+  'upload.zipLevel.source': {
+    es: 'Fuentes individuales (sin agregar)',
+    en: 'Individual sources (no aggregation)',
+  },
   'upload.fileTooLarge': { es: 'El archivo es demasiado grande. Tamaño máximo: {size}MB', en: 'File is too large. Max size: {size}MB' },
   'upload.noValidData': { es: 'No se encontraron datos válidos en el archivo CSV', en: 'No valid data found in the CSV file' },
-  'upload.success': { es: 'Datos cargados exitosamente: {count} registros', en: 'Data loaded successfully: {count} records' },
+  'upload.success': {
+    es: 'Datos cargados exitosamente: {count} registros ({dropped} filas descartadas)',
+    en: 'Data loaded successfully: {count} records ({dropped} rows dropped)',
+  },
   'upload.loadError': { es: 'Error al cargar datos predefinidos: {error}', en: 'Error loading default data: {error}' },
   'upload.unknownError': { es: 'Error desconocido', en: 'Unknown error' },
   'upload.parseUnknownError': { es: 'Error desconocido al procesar CSV', en: 'Unknown error processing CSV' },
   'upload.maxSize': { es: 'Tamaño máximo: {size}MB', en: 'Max size: {size}MB' },
   'upload.maxRows': { es: 'Máximo {rows} filas', en: 'Maximum {rows} rows' },
+  'upload.cancel': { es: 'Cancelar', en: 'Cancel' },
+  'upload.cancelled': { es: 'Carga cancelada', en: 'Upload cancelled' },
+
+  // Rejected rows report
+  'report.title': { es: 'Filas descartadas', en: 'Rejected rows' },
+  'report.summary': {
+    es: '{accepted} filas cargadas, {rejected} descartadas.',
+    en: '{accepted} rows loaded, {rejected} rejected.',
+  },
+  'report.unknownColumns': { es: 'Columnas ignoradas: {columns}', en: 'Ignored columns: {columns}' },
+  'report.line': { es: 'Línea', en: 'Line' },
+  'report.more': { es: 'y {count} filas más en la descarga', en: 'and {count} more rows in the download' },
+  'report.download': { es: 'Descargar filas descartadas (CSV)', en: 'Download rejected rows (CSV)' },
+  'report.reason.columnCount': { es: 'Número de columnas incorrecto', en: 'Wrong number of columns' },
+  'report.reason.missingRegion': { es: 'Región vacía', en: 'Empty region' },
+  'report.reason.invalidYear': { es: 'Año fuera de 1900–2100', en: 'Year outside 1900–2100' },
+  'report.reason.invalidEmissions': { es: 'Emisiones no numéricas', en: 'Non-numeric emissions' },
+
+  // Column mapping
+  'mapping.description': {
+    es: 'Indica qué representa cada columna del archivo.',
+    en: 'Choose what each column in the file represents.',
+  },
+  'mapping.missing': { es: 'Faltan columnas obligatorias: {fields}', en: 'Required columns missing: {fields}' },
+  'mapping.remember': { es: 'Recordar para archivos con estas columnas', en: 'Remember for files with these columns' },
+  'mapping.import': { es: 'Importar', en: 'Import' },
+  'mapping.cancel': { es: 'Cancelar', en: 'Cancel' },
+  'mapping.role.region': { es: 'Región', en: 'Region' },
+  'mapping.role.province': { es: 'Provincia', en: 'Province' },
+  'mapping.role.municipality': { es: 'Municipio', en: 'Municipality' },
+  'mapping.role.municipalityCode': { es: 'Código INE de municipio', en: 'INE municipality code' },
+  'mapping.role.year': { es: 'Año', en: 'Year' },
+  'mapping.role.sector': { es: 'Sector', en: 'Sector' },
+  'mapping.role.sectorCategory': { es: 'Categoría de sector', en: 'Sector category' },
+  'mapping.role.emissions': { es: 'Emisiones', en: 'Emissions' },
+  'mapping.role.lat': { es: 'Latitud', en: 'Latitude' },
+  'mapping.role.lng': { es: 'Longitud', en: 'Longitude' },
+  'mapping.role.metric': { es: 'Métrica adicional', en: 'Extra metric' },
+  'mapping.role.ignore': { es: 'Ignorar', en: 'Ignore' },
 
   // About page
   'about.purpose': {
@@ -117,6 +349,80 @@ const translations: Translations = {
   'errorBoundary.reload': { es: 'Recargar página', en: 'Reload page' },
   'errorBoundary.retry': { es: 'Intentar de nuevo', en: 'Try again' },
 
+  // Workspace
+  'workspace.title': { es: 'Conjuntos cargados', en: 'Loaded datasets' },
+  'workspace.records': { es: '{count} registros', en: '{count} records' },
+  'workspace.remove': { es: 'Quitar del mapa', en: 'Remove from map' },
+  'workspace.merged': { es: 'Combinar', en: 'Merge' },
+  'workspace.separate': { es: 'Por separado', en: 'Separate' },
+
+  // Derived metrics
+  'formula.title': { es: 'Métricas calculadas', en: 'Derived metrics' },
+  'formula.empty': {
+    es: 'Define una métrica con una fórmula sobre las columnas numéricas',
+    en: 'Define a metric with a formula over the numeric columns',
+  },
+  'formula.name': { es: 'Nombre de la métrica', en: 'Metric name' },
+  'formula.placeholder': { es: 'p. ej. co2 + ch4 * 28', en: 'e.g. co2 + ch4 * 28' },
+  'formula.columns': { es: 'Columnas: {columns}', en: 'Columns: {columns}' },
+  'formula.add': { es: 'Añadir métrica', en: 'Add metric' },
+  'formula.delete': { es: 'Eliminar métrica', en: 'Delete metric' },
+  'formula.error.emptyName': { es: 'Indica un nombre', en: 'Enter a name' },
+  'formula.error.nameTaken': {
+    es: 'Ya existe una columna o métrica llamada "{detail}"',
+    en: 'A column or metric named "{detail}" already exists',
+  },
+  'formula.error.empty': { es: 'Escribe una fórmula', en: 'Enter a formula' },
+  'formula.error.unexpectedCharacter': {
+    es: 'Carácter no válido: {detail}',
+    en: 'Invalid character: {detail}',
+  },
+  'formula.error.unexpectedToken': { es: 'No se esperaba "{detail}"', en: 'Unexpected "{detail}"' },
+  'formula.error.unexpectedEnd': { es: 'La fórmula está incompleta', en: 'The formula is incomplete' },
+  'formula.error.unclosedQuote': { es: 'Falta cerrar las comillas', en: 'Missing closing quote' },
+  'formula.error.unknownColumn': { es: 'Columna desconocida: {detail}', en: 'Unknown column: {detail}' },
+  'formula.error.tooLong': { es: 'La fórmula es demasiado larga', en: 'The formula is too long' },
+
+  // Saved datasets
+  'datasets.title': { es: 'Mis conjuntos de datos', en: 'My datasets' },
+  'datasets.empty': {
+    es: 'Los archivos que subas se guardarán aquí en este navegador.',
+    en: 'Files you upload are saved here in this browser.',
+  },
+  'datasets.details': { es: '{date} · {rows} filas · {file}', en: '{date} · {rows} rows · {file}' },
+  'datasets.open': { es: 'Abrir', en: 'Open' },
+  'datasets.rename': { es: 'Renombrar', en: 'Rename' },
+  'datasets.delete': { es: 'Eliminar', en: 'Delete' },
+  'datasets.deleted': { es: 'Se eliminó "{name}"', en: 'Deleted "{name}"' },
+  'datasets.setDefault': { es: 'Usar como predeterminado', en: 'Use as default' },
+  'datasets.unsetDefault': { es: 'Dejar de usar como predeterminado', en: 'Stop using as default' },
+  'datasets.missing': { es: 'El conjunto de datos ya no existe', en: 'The dataset no longer exists' },
+  'datasets.openError': { es: 'Error al abrir el conjunto de datos: {error}', en: 'Error opening dataset: {error}' },
+  'datasets.listError': {
+    es: 'Error al leer los conjuntos de datos guardados: {error}',
+    en: 'Error reading saved datasets: {error}',
+  },
+  'datasets.renameError': {
+    es: 'Error al renombrar el conjunto de datos: {error}',
+    en: 'Error renaming dataset: {error}',
+  },
+  'datasets.deleteError': {
+    es: 'Error al eliminar el conjunto de datos: {error}',
+    en: 'Error deleting dataset: {error}',
+  },
+  'datasets.alreadySaved': {
+    es: '"{name}" ya estaba guardado; no se guardó otra copia',
+    en: '"{name}" was already saved; no other copy was saved',
+  },
+  'datasets.saveError': {
+    es: 'Los datos se cargaron, pero no se pudieron guardar en este navegador',
+    en: 'The data was loaded but could not be saved in this browser',
+  },
+  'datasets.quotaExceeded': {
+    es: 'No hay espacio suficiente en el navegador para guardar este conjunto de datos. Elimina conjuntos guardados para liberar espacio.',
+    en: 'There is not enough browser storage to save this dataset. Delete saved datasets to free up space.',
+  },
+
   // Index page status messages
   'index.loadedUpload': {
     es: 'Se cargaron {{count}} registros desde la subida',
@@ -130,6 +436,10 @@ const translations: Translations = {
     es: 'Se cargaron {{count}} registros del CSV predeterminado',
     en: 'Loaded {{count}} records from default CSV',
   },
+  'index.loadedSaved': {
+    es: 'Se cargaron {count} registros del conjunto guardado "{name}"',
+    en: 'Loaded {count} records from saved dataset "{name}"',
+  },
   'index.errorLoad': {
     es: 'Error al cargar CSV: {{msg}}',
     en: 'Error loading CSV: {{msg}}',
@@ -1,11 +1,13 @@
 
 // pages/index.tsx
 import React, { useEffect, useState, useMemo } from 'react';
-import Papa from 'papaparse';
 
 import Header from '../components/Header';
 import MapVisualization from '../components/MapVisualization';
 import DataUpload from '../components/DataUpload';
+import SavedDatasets from '../components/SavedDatasets';
+import WorkspacePanel from '../components/WorkspacePanel';
+import DerivedMetricsPanel from '../components/DerivedMetricsPanel';
 import FilterPanel from '../components/FilterPanel';
 import ErrorBoundary from '../components/ErrorBoundary';
 
@@ -14,148 +16,161 @@ import { Dialog, DialogContent, DialogTitle, DialogDescription } from '@/compone
 import { Button } from '@/components/ui/button';
 import { Upload, Filter as FilterIcon } from 'lucide-react';
 
-import type { CO2Data } from '../components/DataUpload';
+import { DEFAULT_DATASET_NAME, type CO2Data } from '../components/DataUpload';
 import type { FilterState } from '../components/FilterPanel';
 
 import { useTranslation } from '../hooks/useTranslation';
-import { sanitizeNumber, sanitizeString, validateCoordinates } from '../utils/security';
-
-const parseCSV = (csvText: string): CO2Data[] => {
-  const { data: rows, errors } = Papa.parse<Record<string, string>>(csvText, {
-    header: true,
-    skipEmptyLines: true,
-    transformHeader: header => sanitizeString(header.replace(/"/g, '')),
-    transform: value => value.trim().replace(/"/g, ''),
-  });
+import { parseCSV, type IngestDiagnostics } from '../utils/ingest';
+import {
+  getDefaultDatasetId,
+  listDatasets,
+  loadDataset,
+  setDefaultDatasetId,
+  type StoredDatasetMeta,
+} from '../utils/datasetStore';
+import {
+  activeRecords,
+  createWorkspaceDataset,
+  type ViewMode,
+  type WorkspaceDataset,
+} from '../utils/workspace';
+import { EMPTY_FILTER, isFilterActive, isMultiFilter, matchesFilter } from '../utils/filters';
+import {
+  applyDerivedMetrics,
+  isDerivedMetric,
+  numericColumns,
+  type DerivedMetric,
+} from '../utils/derivedMetrics';
+
+const NO_FILTERS: FilterState = {
+  regions: EMPTY_FILTER,
+  province: null,
+  municipality: null,
+  yearFrom: null,
+  yearTo: null,
+  yearMode: 'sum',
+  sectorCategories: EMPTY_FILTER,
+  sectors: EMPTY_FILTER,
+};
 
-  if (errors.length > 0) {
-    console.warn('CSV parse errors:', errors);
+// Read a stored JSON value, dropping whatever no longer has the expected shape
+const readStored = <T,>(key: string, fallback: T, restore: (value: unknown) => T | null): T => {
+  try {
+    const saved = localStorage.getItem(key);
+    return (saved && restore(JSON.parse(saved))) ?? fallback;
+  } catch {
+    return fallback;
   }
+};
 
-  return rows.reduce<CO2Data[]>((acc, row, i) => {
-    try {
-      const sanitizedRow: Record<string, unknown> = {};
-      for (const [key, value] of Object.entries(row)) {
-        const cleanKey = sanitizeString(key);
-        if (!value) continue;
-        if (!isNaN(Number(value))) {
-          sanitizedRow[cleanKey] = sanitizeNumber(value);
-        } else {
-          sanitizedRow[cleanKey] = sanitizeString(value);
-        }
-      }
+const restoreDerivedMetrics = (value: unknown): DerivedMetric[] | null =>
+  Array.isArray(value) ? value.filter(isDerivedMetric) : null;
 
-      const region = sanitizeString(
-        (sanitizedRow.region as string) ||
-        (sanitizedRow.Region as string) ||
-        (sanitizedRow.autonomous_community as string) ||
-        (sanitizedRow.comunidad_autonoma as string) ||
-        ''
-      );
-
-      const yearRaw = sanitizedRow.year || sanitizedRow.Year || sanitizedRow.año || '';
-      const year = sanitizeNumber(yearRaw) || 0;
-
-      const sectorRaw = sanitizeString(
-        (sanitizedRow.sector as string) ||
-        (sanitizedRow.Sector as string) ||
-        (sanitizedRow.industry as string) ||
-        (sanitizedRow.industria as string) ||
-        ''
-      );
-      const [sectorCategory, sectorValue] = sectorRaw.split(':');
-      const sector = sectorValue || sectorCategory;
-
-      const emissionsRaw = 
-        sanitizedRow.emissions ||
-        sanitizedRow.Emissions ||
-        sanitizedRow.emisiones ||
-        sanitizedRow.co2 ||
-        sanitizedRow.CO2 ||
-        '';
-      const emissions = sanitizeNumber(emissionsRaw) || 0;
-
-      const lat = sanitizedRow.lat !== undefined ? sanitizeNumber(sanitizedRow.lat) : undefined;
-      const lng = sanitizedRow.lng !== undefined ? sanitizeNumber(sanitizedRow.lng) : undefined;
-      const coordinates =
-        lat !== undefined &&
-        lng !== undefined &&
-        validateCoordinates(lat, lng)
-          ? ([lat, lng] as [number, number])
-          : undefined;
-
-      if (
-        region &&
-        year >= 1900 &&
-        year <= 2100 &&
-        emissions >= 0 &&
-        Number.isFinite(emissions)
-      ) {
-        const record: CO2Data = {
-          region,
-          year,
-          sector,
-          sectorCategory,
-          sectorValue: sector,
-          emissions,
-          coordinates,
-        };
-        for (const [k, v] of Object.entries(sanitizedRow)) {
-          if (
-            typeof v === 'number' &&
-            !['year', 'lat', 'lng'].includes(k) &&
-            !(k in record)
-          ) {
-            record[k] = v;
-          }
-        }
-        acc.push(record);
-      }
-    } catch (err) {
-      console.warn(`Skipping row ${i + 2} (CSV line ${i + 2}):`, err);
-    }
-    return acc;
-  }, []);
+const restoreMetrics = (value: unknown): string[] | null => {
+  if (!Array.isArray(value)) return null;
+  const metrics = value.filter((metric): metric is string => typeof metric === 'string');
+  return metrics.length > 0 ? metrics : null;
 };
 
+const restorePalettes = (value: unknown): Record<string, string> | null =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? Object.fromEntries(
+        Object.entries(value).filter(
+          (entry): entry is [string, string] => typeof entry[1] === 'string'
+        )
+      )
+    : null;
+
 const Index: React.FC = () => {
   const { t } = useTranslation();
 
-  const [data, setData] = useState<CO2Data[]>([]);
+  const [datasets, setDatasets] = useState<WorkspaceDataset[]>([]);
+  const [viewMode, setViewMode] = useState<ViewMode>(() => {
+    try {
+      return localStorage.getItem('viewMode') === 'separate' ? 'separate' : 'merged';
+    } catch {
+      return 'merged';
+    }
+  });
+  // Formula metrics, added to every record that has the columns they read
+  const [derivedMetrics, setDerivedMetrics] = useState<DerivedMetric[]>(() =>
+    readStored('derivedMetrics', [], restoreDerivedMetrics)
+  );
+  const sourceData = useMemo(() => activeRecords(datasets), [datasets]);
+  const sourceColumns = useMemo(() => numericColumns(sourceData), [sourceData]);
+  const data = useMemo(
+    () => applyDerivedMetrics(sourceData, derivedMetrics, sourceColumns),
+    [sourceData, derivedMetrics, sourceColumns]
+  );
   const [filters, setFilters] = useState<FilterState>(() => {
     try {
       const saved = sessionStorage.getItem('filters');
-      return saved
-        ? (JSON.parse(saved) as FilterState)
-        : { region: null, year: null, sectorCategory: null, sector: null };
+      if (!saved) return NO_FILTERS;
+      const parsed = JSON.parse(saved) as Partial<FilterState>;
+      // Filters saved before multi-select held single values
+      const multi = (key: 'regions' | 'sectorCategories' | 'sectors') =>
+        isMultiFilter(parsed[key]) ? parsed[key] : EMPTY_FILTER;
+      return {
+        ...NO_FILTERS,
+        ...parsed,
+        regions: multi('regions'),
+        sectorCategories: multi('sectorCategories'),
+        sectors: multi('sectors'),
+      };
     } catch {
-      return { region: null, year: null, sectorCategory: null, sector: null };
+      return NO_FILTERS;
     }
   });
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [statusMsg, setStatusMsg] = useState<string>('');
   const [isDataModalOpen, setDataModalOpen] = useState(false);
-  const [selectedMetrics, setSelectedMetrics] = useState<string[]>(() => {
-    try {
-      const saved = localStorage.getItem('selectedMetrics');
-      return saved ? JSON.parse(saved) : ['emissions'];
-    } catch {
-      return ['emissions'];
-    }
-  });
+  const [selectedMetrics, setSelectedMetrics] = useState<string[]>(() =>
+    readStored('selectedMetrics', ['emissions'], restoreMetrics)
+  );
+  // Palette id per metric
+  const [metricPalettes, setMetricPalettes] = useState<Record<string, string>>(() =>
+    readStored('metricPalettes', {}, restorePalettes)
+  );
+
+  const addDataset = (name: string, records: CO2Data[]) => {
+    setDatasets(prev => [...prev, createWorkspaceDataset(name, records)]);
+  };
 
-  const handleDataLoaded = (loadedData: CO2Data[]) => {
-    setData(loadedData);
+  const handleDataLoaded = (
+    loadedData: CO2Data[],
+    name: string,
+    diagnostics?: IngestDiagnostics
+  ) => {
+    addDataset(name, loadedData);
     setStatusMsg(
       t('index.loadedUpload').replace(
         '{{count}}',
         loadedData.length.toString()
       )
     );
+    // Keep the dialog open so the rejected rows report stays visible
+    if (!diagnostics?.rejected.length) {
+      setDataModalOpen(false);
+    }
+  };
+
+  const handleDatasetOpened = (loadedData: CO2Data[], dataset: StoredDatasetMeta) => {
+    addDataset(dataset.name, loadedData);
+    setStatusMsg(
+      t('index.loadedSaved', { count: loadedData.length, name: dataset.name })
+    );
     setDataModalOpen(false);
   };
 
+  const handleToggleDataset = (id: string) => {
+    setDatasets(prev => prev.map(d => (d.id === id ? { ...d, active: !d.active } : d)));
+  };
+
+  const handleRemoveDataset = (id: string) => {
+    setDatasets(prev => prev.filter(d => d.id !== id));
+  };
+
   const handleFiltersChange = (newFilters: FilterState) => {
     setFilters(newFilters);
   };
@@ -169,6 +184,30 @@ const Index: React.FC = () => {
     }
   }, [selectedMetrics]);
 
+  useEffect(() => {
+    try {
+      localStorage.setItem('metricPalettes', JSON.stringify(metricPalettes));
+    } catch {
+      // ignore
+    }
+  }, [metricPalettes]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem('derivedMetrics', JSON.stringify(derivedMetrics));
+    } catch {
+      // ignore
+    }
+  }, [derivedMetrics]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem('viewMode', viewMode);
+    } catch {
+      // ignore
+    }
+  }, [viewMode]);
+
   useEffect(() => {
     try {
       sessionStorage.setItem('filters', JSON.stringify(filters));
@@ -177,13 +216,37 @@ const Index: React.FC = () => {
     }
   }, [filters]);
 
-  // Load default CSV on mount
+  // Load the default saved dataset, or the bundled CSV, on mount
   useEffect(() => {
     const controller = new AbortController();
 
+    const loadSavedDefault = async (): Promise<boolean> => {
+      const id = getDefaultDatasetId();
+      if (!id) return false;
+      try {
+        const [saved, datasets] = await Promise.all([loadDataset(id), listDatasets()]);
+        const dataset = datasets.find(d => d.id === id);
+        if (!saved || !dataset) {
+          setDefaultDatasetId(null);
+          return false;
+        }
+        if (controller.signal.aborted) return true;
+        setDatasets([createWorkspaceDataset(dataset.name, saved)]);
+        setStatusMsg(t('index.loadedSaved', { count: saved.length, name: dataset.name }));
+        return true;
+      } catch (err) {
+        console.error('Error loading saved dataset:', err);
+        return false;
+      }
+    };
+
     const loadData = async () => {
       setIsLoading(true);
       setError(null);
+      if (await loadSavedDefault()) {
+        setIsLoading(false);
+        return;
+      }
       const dataUrl = `${import.meta.env.BASE_URL}climatetrace_aggregated.csv`;
         setStatusMsg(t('index.loadingDefault').replace('{{url}}', dataUrl));
 
@@ -195,7 +258,7 @@ const Index: React.FC = () => {
         const text = await res.text();
         let parsedData: CO2Data[];
         try {
-          parsedData = parseCSV(text);
+          parsedData = parseCSV(text).data;
         } catch (parseErr) {
           const msg = parseErr instanceof Error ? parseErr.message : String(parseErr);
           console.error('CSV parse error:', msg);
@@ -207,7 +270,7 @@ const Index: React.FC = () => {
           );
           throw parseErr;
         }
-        setData(parsedData);
+        setDatasets([createWorkspaceDataset(DEFAULT_DATASET_NAME, parsedData)]);
           const msgLoaded = t('index.loadedDefault').replace(
             '{{count}}',
             parsedData.length.toString()
@@ -232,19 +295,52 @@ const Index: React.FC = () => {
     () => Array.from(new Set(data.map(d => d.region))).sort(),
     [data]
   );
+  const availableProvinces = useMemo(
+    () =>
+      isFilterActive(filters.regions)
+        ? Array.from(
+            new Set(
+              data
+                .filter(d => matchesFilter(filters.regions, d.region) && d.province)
+                .map(d => d.province as string)
+            )
+          ).sort()
+        : [],
+    [data, filters.regions]
+  );
+  // Municipality names within the selected region and province
+  const availableMunicipalities = useMemo(
+    () =>
+      Array.from(
+        new Set(
+          data
+            .filter(
+              d =>
+                d.municipality &&
+                matchesFilter(filters.regions, d.region) &&
+                (!filters.province || d.province === filters.province)
+            )
+            .map(d => d.municipality as string)
+        )
+      ).sort((a, b) => a.localeCompare(b)),
+    [data, filters.regions, filters.province]
+  );
   const availableYears = useMemo(
     () => Array.from(new Set(data.map(d => d.year))).sort((a, b) => a - b),
     [data]
   );
 
-  // Keep all years selected unless a saved year exists and is valid
+  // Keep all years selected unless a saved range end exists and is valid
   useEffect(() => {
     if (availableYears.length === 0) return;
     setFilters(prev => {
-      if (prev.year === null) return prev;
-      return availableYears.includes(prev.year)
-        ? prev
-        : { ...prev, year: null };
+      const valid = (year: number | null) => year === null || availableYears.includes(year);
+      if (valid(prev.yearFrom) && valid(prev.yearTo)) return prev;
+      return {
+        ...prev,
+        yearFrom: valid(prev.yearFrom) ? prev.yearFrom : null,
+        yearTo: valid(prev.yearTo) ? prev.yearTo : null,
+      };
     });
   }, [availableYears]);
   const availableCategories = useMemo(
@@ -253,30 +349,31 @@ const Index: React.FC = () => {
   );
   const availableValues = useMemo(
     () =>
-      filters.sectorCategory
+      isFilterActive(filters.sectorCategories)
         ? Array.from(
             new Set(
               data
-                .filter(d => d.sectorCategory === filters.sectorCategory)
+                .filter(d => matchesFilter(filters.sectorCategories, d.sectorCategory))
                 .map(d => d.sector)
             )
           ).sort()
         : [],
-    [data, filters.sectorCategory]
+    [data, filters.sectorCategories]
   );
 
-  // Discover numeric fields for metrics
-  const availableMetrics = useMemo(() => {
-    const metrics = new Set<string>();
-    data.forEach(record => {
-      Object.entries(record).forEach(([k, v]) => {
-        if (typeof v === 'number' && isFinite(v) && !['year', 'lat', 'lng'].includes(k)) {
-          metrics.add(k);
-        }
-      });
+  // Sectors are listed per category, so drop those the categories no longer
+  // cover
+  useEffect(() => {
+    if (data.length === 0) return;
+    setFilters(prev => {
+      const values = prev.sectors.values.filter(value => availableValues.includes(value));
+      if (values.length === prev.sectors.values.length) return prev;
+      return { ...prev, sectors: { ...prev.sectors, values } };
     });
-    return Array.from(metrics).sort();
-  }, [data]);
+  }, [data, availableValues]);
+
+  // Discover numeric fields for metrics, derived ones included
+  const availableMetrics = useMemo(() => numericColumns(data), [data]);
 
   // Adjust selectedMetrics if needed
   useEffect(() => {
@@ -295,14 +392,20 @@ const Index: React.FC = () => {
         <main className="relative flex-1">
           <MapVisualization
             data={data}
+            datasets={datasets}
+            viewMode={viewMode}
             filters={filters}
             selectedMetrics={selectedMetrics}
             availableMetrics={availableMetrics}
             onMetricsChange={setSelectedMetrics}
+            metricPalettes={metricPalettes}
+            onMetricPalettesChange={setMetricPalettes}
             isLoading={isLoading}
             error={error}
             statusMessage={statusMsg}
             availableRegions={availableRegions}
+            availableProvinces={availableProvinces}
+            availableMunicipalities={availableMunicipalities}
             availableYears={availableYears}
             availableCategories={availableCategories}
             availableValues={availableValues}
@@ -318,8 +421,21 @@ const Index: React.FC = () => {
                   <Upload className="w-4 h-4" />
                 </Button>
               </SheetTrigger>
-              <SheetContent side="right" className="sm:w-96">
+              <SheetContent side="right" className="sm:w-96 overflow-y-auto space-y-4">
                 <DataUpload onDataLoaded={handleDataLoaded} />
+                <WorkspacePanel
+                  datasets={datasets}
+                  viewMode={viewMode}
+                  onViewModeChange={setViewMode}
+                  onToggle={handleToggleDataset}
+                  onRemove={handleRemoveDataset}
+                />
+                <DerivedMetricsPanel
+                  metrics={derivedMetrics}
+                  onChange={setDerivedMetrics}
+                  columns={sourceColumns}
+                />
+                <SavedDatasets onOpen={handleDatasetOpened} />
               </SheetContent>
             </Sheet>
 
@@ -334,6 +450,8 @@ const Index: React.FC = () => {
                   filters={filters}
                   onFiltersChange={handleFiltersChange}
                   availableRegions={availableRegions}
+                  availableProvinces={availableProvinces}
+                  availableMunicipalities={availableMunicipalities}
                   availableYears={availableYears}
                   availableCategories={availableCategories}
                   availableValues={availableValues}
@@ -344,12 +462,25 @@ const Index: React.FC = () => {
         </main>
 
         <Dialog open={isDataModalOpen} onOpenChange={setDataModalOpen}>
-          <DialogContent className="sm:max-w-xl">
+          <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
             <DialogTitle>{t('menu.upload')}</DialogTitle>
             <DialogDescription>
               Upload your CSV data file to visualize CO2 emissions data on the map.
             </DialogDescription>
             <DataUpload onDataLoaded={handleDataLoaded} />
+            <WorkspacePanel
+              datasets={datasets}
+              viewMode={viewMode}
+              onViewModeChange={setViewMode}
+              onToggle={handleToggleDataset}
+              onRemove={handleRemoveDataset}
+            />
+            <DerivedMetricsPanel
+              metrics={derivedMetrics}
+              onChange={setDerivedMetrics}
+              columns={sourceColumns}
+            />
+            <SavedDatasets onOpen={handleDatasetOpened} />
           </DialogContent>
         </Dialog>
       </div>
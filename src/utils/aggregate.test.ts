@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { CO2Data } from '@/components/DataUpload';
+import { aggregateRecords, metricRanges } from './aggregate';
+
+const record = (overrides: Partial<CO2Data>): CO2Data => ({
+  region: 'Madrid',
+  year: 2022,
+  sector: 'power',
+  sectorCategory: 'energy',
+  emissions: 0,
+  ...overrides,
+});
+
+describe('aggregateRecords', () => {
+  const records = [
+    record({ emissions: 10, dataset: 'a' }),
+    record({ emissions: 5, dataset: 'b', sector: 'steel', sectorCategory: 'industry' }),
+    record({ region: 'Galicia', emissions: -3, dataset: 'a' }),
+  ];
+
+  it('sums metrics per key', () => {
+    const result = aggregateRecords(records, ['emissions'], item => item.region);
+    expect(result.map(item => [item.key, item.emissions, item.count])).toEqual([
+      ['Madrid', 15, 2],
+      ['Galicia', -3, 1],
+    ]);
+  });
+
+  it('keeps totals per dataset and per category', () => {
+    const [madrid] = aggregateRecords(records, ['emissions'], item => item.region);
+    expect(madrid.sources).toEqual({ a: { emissions: 10 }, b: { emissions: 5 } });
+    expect(madrid.byCategory).toEqual({
+      energy: { emissions: 10 },
+      industry: { emissions: 5 },
+    });
+  });
+
+  it('keeps category and sector only when the group agrees on them', () => {
+    const [madrid, galicia] = aggregateRecords(records, ['emissions'], item => item.region);
+    expect(madrid.sectorCategory).toBeNull();
+    expect(madrid.sector).toBeNull();
+    expect(galicia.sectorCategory).toBe('energy');
+    expect(galicia.sector).toBe('power');
+  });
+
+  it('places groups with the coordinates callback', () => {
+    const [madrid] = aggregateRecords(
+      records,
+      ['emissions'],
+      item => item.region,
+      () => [40.4, -3.7]
+    );
+    expect(madrid.coordinates).toEqual([40.4, -3.7]);
+  });
+
+  it('leaves a metric undefined when no record has it', () => {
+    const [madrid] = aggregateRecords(records, ['co2'], item => item.region);
+    expect(madrid.co2).toBeUndefined();
+  });
+});
+
+describe('metricRanges', () => {
+  it('ignores values that are not finite numbers', () => {
+    const ranges = metricRanges(
+      [record({ emissions: 4 }), record({ emissions: NaN }), record({ emissions: -2 })],
+      ['emissions', 'co2']
+    );
+    expect(ranges).toEqual({ emissions: { min: -2, max: 4 } });
+  });
+});
@@ -0,0 +1,95 @@
+import type { CO2Data } from '@/components/DataUpload';
+
+export type AggregatedRecord = CO2Data & {
+  /** Key the records were grouped by */
+  key: string;
+  count: number;
+  /** Metric totals per dataset id */
+  sources: Record<string, Record<string, number>>;
+  /** Metric totals per sector category */
+  byCategory: Record<string, Record<string, number>>;
+};
+
+/**
+ * Sum `metrics` over the records sharing a key. Category and sector are kept
+ * only when every record in the group agrees on them.
+ */
+export const aggregateRecords = (
+  records: CO2Data[],
+  metrics: string[],
+  keyOf: (record: CO2Data) => string,
+  coordinatesOf: (record: CO2Data) => [number, number] | undefined = record => record.coordinates
+): AggregatedRecord[] => {
+  const map = new Map<
+    string,
+    AggregatedRecord & {
+      categories: Set<string>;
+      sectors: Set<string>;
+    }
+  >();
+
+  records.forEach(item => {
+    const key = keyOf(item);
+    const source = item.dataset ?? '';
+
+    if (!map.has(key)) {
+      const entry = {
+        ...item,
+        coordinates: coordinatesOf(item),
+        key,
+        count: 0,
+        sources: {},
+        byCategory: {},
+        categories: new Set<string>(),
+        sectors: new Set<string>(),
+      };
+      metrics.forEach(metric => {
+        if (typeof entry[metric] === 'number') entry[metric] = 0;
+      });
+      map.set(key, entry);
+    }
+
+    const existing = map.get(key)!;
+    const bySource = (existing.sources[source] ??= {});
+    const byCategory = (existing.byCategory[item.sectorCategory ?? ''] ??= {});
+    metrics.forEach(metric => {
+      const raw = item[metric];
+      if (typeof raw !== 'number') return;
+      existing[metric] =
+        (typeof existing[metric] === 'number' ? (existing[metric] as number) : 0) + raw;
+      bySource[metric] = (bySource[metric] ?? 0) + raw;
+      byCategory[metric] = (byCategory[metric] ?? 0) + raw;
+    });
+    if (item.sectorCategory) existing.categories.add(item.sectorCategory);
+    if (item.sector) existing.sectors.add(item.sector);
+    existing.count++;
+  });
+
+  return Array.from(map.values()).map(entry => {
+    const { categories, sectors, ...rest } = entry;
+    return {
+      ...rest,
+      sectorCategory: categories.size === 1 ? Array.from(categories)[0] : null,
+      sector: sectors.size === 1 ? Array.from(sectors)[0] : null,
+    } as AggregatedRecord;
+  });
+};
+
+/**
+ * Min/max of each metric over the aggregated records.
+ */
+export const metricRanges = (
+  records: CO2Data[],
+  metrics: string[]
+): Record<string, { min: number; max: number }> => {
+  const ranges: Record<string, { min: number; max: number }> = {};
+  metrics.forEach(metric => {
+    const vals = records
+      .map(item => item[metric] as number)
+      .filter(v => typeof v === 'number' && isFinite(v));
+    if (vals.length) {
+      ranges[metric] = { min: Math.min(...vals), max: Math.max(...vals) };
+    }
+  });
+  return ranges;
+};
@@ -0,0 +1,198 @@
+import { feature } from 'topojson-client';
+import type { GeometryCollection, Topology } from 'topojson-specification';
+import {
+  distanceToGeometry,
+  pointInGeometry,
+  type Feature,
+  type FeatureCollection,
+  type Position,
+} from './geo';
+import {
+  normalizePlaceName,
+  PROVINCES,
+  provinceOfMunicipality,
+  REGION_BY_CODE,
+} from './geography';
+
+export interface BoundaryProperties {
+  /** INE code */
+  code: string;
+  /** Name as used in the data */
+  name: string;
+  /** Community a province or municipality belongs to */
+  region?: string;
+  /** Province a municipality belongs to */
+  province?: string;
+}
+
+export type Boundaries = FeatureCollection<BoundaryProperties>;
+export type BoundaryFeature = Feature<BoundaryProperties>;
+
+/**
+ * Convert a TopoJSON object to features, keeping only those `describe`
+ * knows. It gets the INE code and the atlas name of each geometry.
+ */
+const toFeatures = (
+  topology: Topology,
+  object: string,
+  describe: (code: string, atlasName: string) => Omit<BoundaryProperties, 'code'> | undefined
+): Boundaries => {
+  const collection = feature(topology, topology.objects[object] as GeometryCollection);
+  return {
+    type: 'FeatureCollection',
+    features: collection.features.flatMap(f => {
+      const code = String(f.id);
+      const atlasName = (f.properties as { name?: string } | null)?.name ?? '';
+      const described = describe(code, atlasName);
+      if (!described) return [];
+      return [{
+        type: 'Feature' as const,
+        geometry: f.geometry as BoundaryFeature['geometry'],
+        properties: { code, ...described },
+      }];
+    }),
+  };
+};
+
+let regionBoundaries: Promise<Boundaries> | null = null;
+
+/**
+ * Autonomous community boundaries from the bundled IGN atlas. Loaded on first
+ * use so the geometry stays out of the main chunk.
+ */
+export const loadRegionBoundaries = (): Promise<Boundaries> => {
+  regionBoundaries ??= import('es-atlas/es/autonomous_regions.json').then(({ default: topology }) =>
+    toFeatures(topology as unknown as Topology, 'autonomous_regions', code =>
+      REGION_BY_CODE[code] ? { name: REGION_BY_CODE[code] } : undefined
+    )
+  );
+  return regionBoundaries;
+};
+
+let provinceBoundaries: Promise<Boundaries> | null = null;
+
+/**
+ * Province boundaries, each tagged with its autonomous community.
+ */
+export const loadProvinceBoundaries = (): Promise<Boundaries> => {
+  provinceBoundaries ??= import('es-atlas/es/provinces.json').then(({ default: topology }) =>
+    toFeatures(topology as unknown as Topology, 'provinces', code =>
+      PROVINCES[code] ? { name: PROVINCES[code].name, region: PROVINCES[code].region } : undefined
+    )
+  );
+  return provinceBoundaries;
+};
+
+let municipalityBoundaries: Promise<Boundaries> | null = null;
+
+/**
+ * Municipality boundaries, each tagged with its province and community. The
+ * largest of the atlas files, so it is only loaded once municipalities are
+ * needed.
+ */
+export const loadMunicipalityBoundaries = (): Promise<Boundaries> => {
+  municipalityBoundaries ??= import('es-atlas/es/municipalities.json').then(({ default: topology }) =>
+    toFeatures(topology as unknown as Topology, 'municipalities', (code, atlasName) => {
+      const province = provinceOfMunicipality(code);
+      return province
+        ? { name: atlasName, province: province.name, region: province.region }
+        : undefined;
+    })
+  );
+  return municipalityBoundaries;
+};
+
+/** Degrees (about 5 km) within which a point snaps to a nearby boundary */
+export const BOUNDARY_TOLERANCE = 0.05;
+
+// Size in degrees of the grid cells used to find candidate boundaries
+const CELL_SIZE = 0.25;
+
+/**
+ * [minLng, minLat, maxLng, maxLat] of a polygon feature.
+ */
+export const featureBounds = (f: BoundaryFeature): [number, number, number, number] => {
+  const geometry = f.geometry;
+  const points: Position[] =
+    geometry?.type === 'Polygon'
+      ? geometry.coordinates.flat()
+      : geometry?.type === 'MultiPolygon'
+        ? geometry.coordinates.flat(2)
+        : [];
+  let [minX, minY, maxX, maxY] = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const [x, y] of points) {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  }
+  return [minX, minY, maxX, maxY];
+};
+
+/**
+ * Build a lookup of the boundary containing a point. Boundaries are indexed
+ * on a grid so thousands of municipalities stay fast. Points just off a
+ * simplified coastline or border snap to the nearest boundary within the
+ * tolerance; anything farther gives null.
+ */
+export const createLocator = (
+  boundaries: Boundaries
+): ((lat: number, lng: number) => BoundaryProperties | null) => {
+  const cell = (value: number) => Math.floor(value / CELL_SIZE);
+  const grid = new Map<string, BoundaryFeature[]>();
+  for (const f of boundaries.features) {
+    const [minX, minY, maxX, maxY] = featureBounds(f);
+    if (!isFinite(minX)) continue;
+    // Padded by the tolerance so snapping candidates share the cell
+    for (let cx = cell(minX - BOUNDARY_TOLERANCE); cx <= cell(maxX + BOUNDARY_TOLERANCE); cx++) {
+      for (let cy = cell(minY - BOUNDARY_TOLERANCE); cy <= cell(maxY + BOUNDARY_TOLERANCE); cy++) {
+        const key = `${cx},${cy}`;
+        const features = grid.get(key);
+        if (features) features.push(f);
+        else grid.set(key, [f]);
+      }
+    }
+  }
+
+  return (lat, lng) => {
+    const point: Position = [lng, lat];
+    const candidates = grid.get(`${cell(lng)},${cell(lat)}`) ?? [];
+    const containing = candidates.find(f => pointInGeometry(point, f.geometry));
+    if (containing) return containing.properties;
+
+    let nearest: BoundaryProperties | null = null;
+    let nearestDist = BOUNDARY_TOLERANCE;
+    for (const f of candidates) {
+      const dist = distanceToGeometry(point, f.geometry);
+      if (dist <= nearestDist) {
+        nearestDist = dist;
+        nearest = f.properties;
+      }
+    }
+    return nearest;
+  };
+};
+
+/**
+ * Resolve a municipality name to its INE code, within a province when one is
+ * given. Names shared by several municipalities only resolve with a province.
+ */
+export const createMunicipalityIndex = (
+  boundaries: Boundaries
+): ((name: string, province?: string) => string | undefined) => {
+  const byName = new Map<string, BoundaryProperties[]>();
+  for (const f of boundaries.features) {
+    if (!f.properties) continue;
+    // Bilingual names like "Donostia/San Sebastián" match either part
+    const names = [f.properties.name, ...f.properties.name.split('/')];
+    for (const name of new Set(names.map(normalizePlaceName))) {
+      byName.set(name, [...(byName.get(name) ?? []), f.properties]);
+    }
+  }
+  return (name, province) => {
+    const matches = (byName.get(normalizePlaceName(name)) ?? []).filter(
+      m => !province || m.province === province
+    );
+    return matches.length === 1 ? matches[0].code : undefined;
+  };
+};
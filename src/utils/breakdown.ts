@@ -0,0 +1,80 @@
+import type { CO2Data } from '@/components/DataUpload';
+
+/** Value of a metric per year; null for years without records */
+export interface YearPoint {
+  year: number;
+  value: number | null;
+}
+
+/** Metric totals per category in one year, keyed by category */
+export type CategoryYearRow = { year: number } & Record<string, number>;
+
+export interface SectorTotal {
+  sector: string;
+  value: number;
+}
+
+const metricValue = (item: CO2Data, metric: string): number | undefined => {
+  const v = item[metric];
+  return typeof v === 'number' && isFinite(v) ? v : undefined;
+};
+
+/**
+ * Sum of a metric over the records.
+ */
+export const sumMetric = (records: CO2Data[], metric: string): number =>
+  records.reduce((sum, item) => sum + (metricValue(item, metric) ?? 0), 0);
+
+/**
+ * Total of a metric in each of the given years.
+ */
+export const totalsByYear = (records: CO2Data[], metric: string, years: number[]): YearPoint[] => {
+  const totals = new Map<number, number>();
+  records.forEach(item => {
+    const v = metricValue(item, metric);
+    if (v !== undefined) totals.set(item.year, (totals.get(item.year) ?? 0) + v);
+  });
+  return years.map(year => ({ year, value: totals.get(year) ?? null }));
+};
+
+/**
+ * Totals of a metric per sector category in each of the given years, with
+ * the categories that appear, largest overall first.
+ */
+export const categoriesByYear = (
+  records: CO2Data[],
+  metric: string,
+  years: number[]
+): { rows: CategoryYearRow[]; categories: string[] } => {
+  const rows = new Map<number, CategoryYearRow>(
+    years.map(year => [year, { year } as CategoryYearRow])
+  );
+  const overall = new Map<string, number>();
+  records.forEach(item => {
+    const v = metricValue(item, metric);
+    const row = rows.get(item.year);
+    if (v === undefined || !row) return;
+    const category = item.sectorCategory ?? '';
+    row[category] = (row[category] ?? 0) + v;
+    overall.set(category, (overall.get(category) ?? 0) + Math.abs(v));
+  });
+  const categories = Array.from(overall.keys()).sort(
+    (a, b) => overall.get(b)! - overall.get(a)!
+  );
+  return { rows: Array.from(rows.values()), categories };
+};
+
+/**
+ * The sectors with the largest totals of a metric, by magnitude so large
+ * removals rank alongside large emissions.
+ */
+export const topSectors = (records: CO2Data[], metric: string, limit: number): SectorTotal[] => {
+  const totals = new Map<string, number>();
+  records.forEach(item => {
+    const v = metricValue(item, metric);
+    if (v !== undefined) totals.set(item.sector, (totals.get(item.sector) ?? 0) + v);
+  });
+  return Array.from(totals, ([sector, value]) => ({ sector, value }))
+    .sort((a, b) => Math.abs(b.value) - Math.abs(a.value))
+    .slice(0, limit);
+};
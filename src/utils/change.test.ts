@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import type { CO2Data } from '@/components/DataUpload';
+import { aggregateChange, changeValue, isChangeSettings, type ChangeSettings } from './change';
+
+const record = (region: string, year: number, emissions: number): CO2Data => ({
+  region,
+  year,
+  sector: 'power',
+  emissions,
+});
+
+const settings = (measure: ChangeSettings['measure']): ChangeSettings => ({
+  enabled: true,
+  baseYear: 2021,
+  compareYear: 2023,
+  measure,
+});
+
+describe('changeValue', () => {
+  it('measures the difference or the percentage of the base', () => {
+    expect(changeValue({ base: 80, compare: 100 }, 'absolute')).toBe(20);
+    expect(changeValue({ base: 80, compare: 100 }, 'percent')).toBe(25);
+    expect(changeValue({ base: -10, compare: -5 }, 'percent')).toBe(50);
+  });
+
+  it('is undefined when a year is missing or a percentage has a zero base', () => {
+    expect(changeValue({ compare: 100 }, 'absolute')).toBeUndefined();
+    expect(changeValue({ base: 0, compare: 5 }, 'percent')).toBeUndefined();
+  });
+});
+
+describe('aggregateChange', () => {
+  const records = [
+    record('Madrid', 2021, 40),
+    record('Madrid', 2021, 60),
+    record('Madrid', 2022, 1000),
+    record('Madrid', 2023, 90),
+    record('Galicia', 2023, 30),
+  ];
+  const byRegion = (measure: ChangeSettings['measure']) =>
+    aggregateChange(records, ['emissions'], r => r.region, () => undefined, settings(measure));
+
+  it('compares the totals of the two years per key, ignoring other years', () => {
+    const [madrid] = byRegion('absolute');
+    expect(madrid.emissions).toBe(-10);
+    expect(madrid.change.emissions).toEqual({ base: 100, compare: 90 });
+    expect(madrid.year).toBe(2023);
+  });
+
+  it('gives the percentage change when asked', () => {
+    const [madrid] = byRegion('percent');
+    expect(madrid.emissions).toBe(-10);
+  });
+
+  it('leaves places with only one of the years without a value', () => {
+    const galicia = byRegion('absolute').find(item => item.key === 'Galicia')!;
+    expect(galicia.emissions).toBeUndefined();
+    expect(galicia.change.emissions).toEqual({ base: undefined, compare: 30 });
+  });
+});
+
+describe('isChangeSettings', () => {
+  it('accepts known measures with integer or unset years', () => {
+    expect(isChangeSettings(settings('percent'))).toBe(true);
+    expect(isChangeSettings({ ...settings('absolute'), baseYear: null })).toBe(true);
+  });
+
+  it('refuses anything else', () => {
+    expect(isChangeSettings('absolute')).toBe(false);
+    expect(isChangeSettings(settings('ratio' as never))).toBe(false);
+    expect(isChangeSettings({ ...settings('absolute'), baseYear: '2021' })).toBe(false);
+  });
+});
@@ -0,0 +1,101 @@
+import type { CO2Data } from '@/components/DataUpload';
+import { aggregateRecords, type AggregatedRecord } from './aggregate';
+
+/** Whether a change is shown as a difference or relative to the base year */
+export type ChangeMeasure = 'absolute' | 'percent';
+
+export const CHANGE_MEASURES: ChangeMeasure[] = ['absolute', 'percent'];
+
+export interface ChangeSettings {
+  enabled: boolean;
+  baseYear: number | null;
+  compareYear: number | null;
+  measure: ChangeMeasure;
+}
+
+export const DEFAULT_CHANGE: ChangeSettings = {
+  enabled: false,
+  baseYear: null,
+  compareYear: null,
+  measure: 'absolute',
+};
+
+const isYear = (value: unknown): value is number | null =>
+  value === null || Number.isInteger(value);
+
+/**
+ * Whether a value, e.g. read back from storage, is a change view setting.
+ */
+export const isChangeSettings = (value: unknown): value is ChangeSettings => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { enabled, baseYear, compareYear, measure } = value as ChangeSettings;
+  return (
+    typeof enabled === 'boolean' &&
+    isYear(baseYear) &&
+    isYear(compareYear) &&
+    CHANGE_MEASURES.includes(measure)
+  );
+};
+
+/** Totals of a metric in the two years; missing when a place has no data */
+export interface ChangeValues {
+  base?: number;
+  compare?: number;
+}
+
+export type ChangeRecord = AggregatedRecord & {
+  /** Base and comparison totals per metric */
+  change: Record<string, ChangeValues>;
+};
+
+/**
+ * The change from base to comparison, or undefined when either is missing
+ * or, for a percentage, when the base is zero.
+ */
+export const changeValue = (
+  { base, compare }: ChangeValues,
+  measure: ChangeMeasure
+): number | undefined => {
+  if (base === undefined || compare === undefined) return undefined;
+  const delta = compare - base;
+  if (measure === 'absolute') return delta;
+  return base !== 0 ? (delta / Math.abs(base)) * 100 : undefined;
+};
+
+/**
+ * Aggregate the records of the base and comparison years per key, setting
+ * each metric to its change between them. Places with data in only one of
+ * the years are kept with the metric left undefined, so they draw as
+ * missing rather than as a change from or to zero.
+ */
+export const aggregateChange = (
+  records: CO2Data[],
+  metrics: string[],
+  keyOf: (record: CO2Data) => string,
+  coordinatesOf: (record: CO2Data) => [number, number] | undefined,
+  { baseYear, compareYear, measure }: ChangeSettings
+): ChangeRecord[] => {
+  const inYears = records.filter(item => item.year === baseYear || item.year === compareYear);
+  const totals = new Map<string, { base: Record<string, number>; compare: Record<string, number> }>();
+  inYears.forEach(item => {
+    const key = keyOf(item);
+    const entry = totals.get(key) ?? { base: {}, compare: {} };
+    const side = item.year === baseYear ? entry.base : entry.compare;
+    metrics.forEach(metric => {
+      const v = item[metric];
+      if (typeof v === 'number' && isFinite(v)) side[metric] = (side[metric] ?? 0) + v;
+    });
+    totals.set(key, entry);
+  });
+
+  return aggregateRecords(inYears, metrics, keyOf, coordinatesOf).map(item => {
+    const entry = totals.get(item.key)!;
+    const record: ChangeRecord = { ...item, year: compareYear ?? item.year, change: {} };
+    metrics.forEach(metric => {
+      const values = { base: entry.base[metric], compare: entry.compare[metric] };
+      record.change[metric] = values;
+      record[metric] = changeValue(values, measure);
+    });
+    return record;
+  });
+};
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import {
+  classify,
+  computeBreaks,
+  DEFAULT_CLASSIFICATION,
+  isClassification,
+  parseBreaks,
+  type Classification,
+} from './classification';
+
+const method = (overrides: Partial<Classification>): Classification => ({
+  ...DEFAULT_CLASSIFICATION,
+  ...overrides,
+});
+
+describe('computeBreaks', () => {
+  it('returns no breaks without values and a single class for one value', () => {
+    expect(computeBreaks([], DEFAULT_CLASSIFICATION)).toEqual([]);
+    expect(computeBreaks([7, 7, NaN], DEFAULT_CLASSIFICATION)).toEqual([7, 7]);
+  });
+
+  it('splits quantiles at interpolated ranks', () => {
+    expect(computeBreaks([4, 0, 1, 3, 2], method({ method: 'quantile', classes: 4 }))).toEqual([
+      0, 1, 2, 3, 4,
+    ]);
+  });
+
+  it('splits the range into equal intervals', () => {
+    expect(computeBreaks([0, 3, 10], method({ method: 'equalInterval', classes: 5 }))).toEqual([
+      0, 2, 4, 6, 8, 10,
+    ]);
+  });
+
+  it('finds natural breaks between clusters', () => {
+    const values = [1, 2, 3, 10, 11, 12, 30, 31];
+    expect(computeBreaks(values, method({ method: 'naturalBreaks', classes: 3 }))).toEqual([
+      1, 3, 12, 31,
+    ]);
+  });
+
+  it('steps logarithmically for positive values', () => {
+    const breaks = computeBreaks([1, 1000], method({ method: 'logarithmic', classes: 3 }));
+    expect(breaks.map(b => Math.round(b))).toEqual([1, 10, 100, 1000]);
+  });
+
+  it('falls back to equal intervals for logarithms of values from zero', () => {
+    expect(computeBreaks([0, 9], method({ method: 'logarithmic', classes: 3 }))).toEqual([
+      0, 3, 6, 9,
+    ]);
+  });
+
+  it('keeps only custom breaks inside the range', () => {
+    const classification = method({ method: 'custom', customBreaks: [50, -5, 20, 200] });
+    expect(computeBreaks([0, 100], classification)).toEqual([0, 20, 50, 100]);
+  });
+
+  it('adds zero as a bound when values cross it', () => {
+    const breaks = computeBreaks([-10, 5, 20], method({ method: 'equalInterval', classes: 2 }));
+    expect(breaks).toEqual([-10, 0, 5, 20]);
+  });
+});
+
+describe('classify', () => {
+  const breaks = [0, 10, 20, 30];
+
+  it('puts values on a break in the lower class', () => {
+    expect(classify(10, breaks)).toBe(0);
+    expect(classify(10.5, breaks)).toBe(1);
+  });
+
+  it('clamps values outside the bounds to the end classes', () => {
+    expect(classify(-5, breaks)).toBe(0);
+    expect(classify(99, breaks)).toBe(2);
+  });
+});
+
+describe('parseBreaks', () => {
+  it('reads separated numbers, sorted and without duplicates', () => {
+    expect(parseBreaks('10, 5;5  x 2.5')).toEqual([2.5, 5, 10]);
+  });
+});
+
+describe('isClassification', () => {
+  it('accepts known methods with a supported class count and numeric breaks', () => {
+    expect(isClassification(DEFAULT_CLASSIFICATION)).toBe(true);
+    expect(isClassification(method({ method: 'custom', customBreaks: [1, 10] }))).toBe(true);
+  });
+
+  it('refuses anything else', () => {
+    expect(isClassification(null)).toBe(false);
+    expect(isClassification(method({ method: 'random' as never }))).toBe(false);
+    expect(isClassification(method({ classes: 1 }))).toBe(false);
+    expect(isClassification(method({ classes: 4.5 }))).toBe(false);
+    expect(isClassification(method({ customBreaks: ['1'] as never }))).toBe(false);
+  });
+});
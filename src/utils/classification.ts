@@ -0,0 +1,194 @@
+/**
+ * How values are split into colour classes.
+ */
+export type ClassificationMethod =
+  | 'quantile'
+  | 'equalInterval'
+  | 'naturalBreaks'
+  | 'logarithmic'
+  | 'custom';
+
+export const CLASSIFICATION_METHODS: ClassificationMethod[] = [
+  'quantile',
+  'equalInterval',
+  'naturalBreaks',
+  'logarithmic',
+  'custom',
+];
+
+export interface Classification {
+  method: ClassificationMethod;
+  classes: number;
+  /** Inner break values for the custom method */
+  customBreaks: number[];
+}
+
+export const DEFAULT_CLASSIFICATION: Classification = {
+  method: 'quantile',
+  classes: 5,
+  customBreaks: [],
+};
+
+export const MIN_CLASSES = 2;
+export const MAX_CLASSES = 9;
+
+/**
+ * Whether a value, e.g. read back from storage, is a usable classification.
+ */
+export const isClassification = (value: unknown): value is Classification => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { method, classes, customBreaks } = value as Classification;
+  return (
+    CLASSIFICATION_METHODS.includes(method) &&
+    Number.isInteger(classes) &&
+    classes >= MIN_CLASSES &&
+    classes <= MAX_CLASSES &&
+    Array.isArray(customBreaks) &&
+    customBreaks.every(b => typeof b === 'number' && isFinite(b))
+  );
+};
+
+// Natural breaks is quadratic in the number of values, so larger inputs are
+// sampled down to this many
+const MAX_JENKS_VALUES = 1000;
+
+const equalInterval = (min: number, max: number, classes: number): number[] =>
+  Array.from({ length: classes + 1 }, (_, i) => min + ((max - min) * i) / classes);
+
+const quantile = (sorted: number[], classes: number): number[] =>
+  Array.from({ length: classes + 1 }, (_, i) => {
+    const pos = ((sorted.length - 1) * i) / classes;
+    const lower = Math.floor(pos);
+    const upper = Math.ceil(pos);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+  });
+
+const logarithmic = (min: number, max: number, classes: number): number[] => {
+  // Logarithms need positive values; fall back to equal steps otherwise
+  if (min <= 0) return equalInterval(min, max, classes);
+  const [logMin, logMax] = [Math.log10(min), Math.log10(max)];
+  return Array.from({ length: classes + 1 }, (_, i) =>
+    Math.pow(10, logMin + ((logMax - logMin) * i) / classes)
+  );
+};
+
+/**
+ * Jenks natural breaks: the split minimising the variance within classes.
+ */
+const naturalBreaks = (sorted: number[], classes: number): number[] => {
+  const values =
+    sorted.length > MAX_JENKS_VALUES
+      ? Array.from(
+          { length: MAX_JENKS_VALUES },
+          (_, i) => sorted[Math.round((i * (sorted.length - 1)) / (MAX_JENKS_VALUES - 1))]
+        )
+      : sorted;
+  const n = values.length;
+  if (n <= classes) return values;
+
+  // lower[i][j]: first index of the last class when splitting values[0..i] in j classes
+  const lower = Array.from({ length: n + 1 }, () => new Array<number>(classes + 1).fill(0));
+  const variance = Array.from({ length: n + 1 }, () => new Array<number>(classes + 1).fill(Infinity));
+  for (let j = 1; j <= classes; j++) {
+    lower[1][j] = 1;
+    variance[1][j] = 0;
+  }
+
+  for (let l = 2; l <= n; l++) {
+    let sum = 0;
+    let sumSquares = 0;
+    let w = 0;
+    let v = 0;
+    for (let m = 1; m <= l; m++) {
+      const lowerIndex = l - m + 1;
+      const value = values[lowerIndex - 1];
+      w++;
+      sum += value;
+      sumSquares += value * value;
+      v = sumSquares - (sum * sum) / w;
+      if (lowerIndex > 1) {
+        for (let j = 2; j <= classes; j++) {
+          if (variance[l][j] >= v + variance[lowerIndex - 1][j - 1]) {
+            lower[l][j] = lowerIndex;
+            variance[l][j] = v + variance[lowerIndex - 1][j - 1];
+          }
+        }
+      }
+    }
+    lower[l][1] = 1;
+    variance[l][1] = v;
+  }
+
+  const breaks = new Array<number>(classes + 1);
+  breaks[classes] = values[n - 1];
+  breaks[0] = values[0];
+  let k = n;
+  for (let j = classes; j >= 2; j--) {
+    const id = lower[k][j] - 1;
+    breaks[j - 1] = values[id - 1];
+    k = id;
+  }
+  return breaks;
+};
+
+/**
+ * Class bounds for the values: the minimum, the inner breaks and the
+ * maximum, so there is one more bound than classes. Empty without values.
+ * When the values cross zero, zero is always a bound so no class mixes
+ * removals with emissions.
+ */
+export const computeBreaks = (values: number[], classification: Classification): number[] => {
+  const sorted = values.filter(v => isFinite(v)).sort((a, b) => a - b);
+  if (sorted.length === 0) return [];
+  const [min, max] = [sorted[0], sorted[sorted.length - 1]];
+  if (min === max) return [min, max];
+
+  const breaks = methodBreaks(sorted, classification);
+  if (min >= 0 || max <= 0 || breaks.includes(0)) return breaks;
+  return [...breaks, 0].sort((a, b) => a - b);
+};
+
+const methodBreaks = (sorted: number[], classification: Classification): number[] => {
+  const [min, max] = [sorted[0], sorted[sorted.length - 1]];
+  const { method, classes, customBreaks } = classification;
+  switch (method) {
+    case 'equalInterval':
+      return equalInterval(min, max, classes);
+    case 'naturalBreaks':
+      return naturalBreaks(sorted, classes);
+    case 'logarithmic':
+      return logarithmic(min, max, classes);
+    case 'custom': {
+      const inner = customBreaks.filter(b => b > min && b < max).sort((a, b) => a - b);
+      return [min, ...inner, max];
+    }
+    default:
+      return quantile(sorted, classes);
+  }
+};
+
+/**
+ * Index of the class a value falls in; values on a break go to the lower
+ * class.
+ */
+export const classify = (value: number, breaks: number[]): number => {
+  const classes = breaks.length - 1;
+  for (let i = 1; i < classes; i++) {
+    if (value <= breaks[i]) return i - 1;
+  }
+  return Math.max(0, classes - 1);
+};
+
+/**
+ * Parse custom breaks typed as a comma, semicolon or space separated list.
+ */
+export const parseBreaks = (text: string): number[] =>
+  Array.from(
+    new Set(
+      text
+        .split(/[\s,;]+/)
+        .filter(part => part !== '')
+        .map(Number)
+        .filter(value => isFinite(value))
+    )
+  ).sort((a, b) => a - b);
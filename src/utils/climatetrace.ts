@@ -0,0 +1,106 @@
+import { createIngestor, type ColumnMapping, type IngestResult } from './ingest';
+import { NATIONAL_REGION, OUTSIDE_REGION } from './geography';
+import type { BoundaryProperties } from './boundaries';
+
+/** Sources CSVs inside a country package, whatever the release suffix */
+export const SOURCES_ENTRY = /_emissions_sources(_v[\d_]+)?\.csv$/i;
+
+/** Columns of a sources CSV used by the aggregation */
+export interface ClimateTraceSource {
+  source_name?: string;
+  sector?: string;
+  subsector?: string;
+  start_time?: string;
+  lat?: string;
+  lon?: string;
+  emissions_quantity?: string;
+}
+
+/**
+ * How far sources are rolled up: by community, by municipality, or not at all
+ */
+export type ClimateTraceLevel = 'region' | 'municipality' | 'source';
+
+const PLACE_HEADERS = ['region', 'province', 'municipality', 'municipality_code'];
+const PLACE_MAPPING: ColumnMapping = ['region', 'province', 'municipality', 'municipalityCode'];
+const AGGREGATE_HEADERS = [...PLACE_HEADERS, 'year', 'sector', 'emissions'];
+const AGGREGATE_MAPPING: ColumnMapping = [...PLACE_MAPPING, 'year', 'sector', 'emissions'];
+const SOURCE_HEADERS = [...AGGREGATE_HEADERS, 'lat', 'lng', 'source_name'];
+const SOURCE_MAPPING: ColumnMapping = [...AGGREGATE_MAPPING, 'lat', 'lng', 'ignore'];
+
+export interface ClimateTraceAggregator {
+  push: (source: ClimateTraceSource) => void;
+  finish: () => IngestResult;
+}
+
+/**
+ * Aggregate ClimateTrace emission sources the way
+ * `scripts/fetch_climatetrace.js` does: by the place containing each source,
+ * year and "sector:subsector". `locate` finds the community or municipality
+ * boundary around a source; sources outside every boundary go to
+ * OUTSIDE_REGION and those without coordinates to NATIONAL_REGION. At the
+ * source level every source becomes its own record at its coordinates.
+ * Either way the rows go through the regular ingestion validation, read
+ * with decimal points as ClimateTrace writes them.
+ */
+export const createClimateTraceAggregator = (
+  level: ClimateTraceLevel,
+  locate: (lat: number, lng: number) => BoundaryProperties | null
+): ClimateTraceAggregator => {
+  const totals = new Map<string, number>();
+  const sources = level === 'source' ? createIngestor(SOURCE_HEADERS, SOURCE_MAPPING, '.') : null;
+  let line = 0;
+
+  // Place columns of a source, as [region, province, municipality, code]
+  const placeOf = (lat: number, lon: number): string[] => {
+    if (isNaN(lat) || isNaN(lon)) return [NATIONAL_REGION, '', '', ''];
+    const place = locate(lat, lon);
+    if (!place) return [OUTSIDE_REGION, '', '', ''];
+    // Municipality boundaries carry their province and community
+    return place.region
+      ? [place.region, place.province ?? '', place.name, place.code]
+      : [place.name, '', '', ''];
+  };
+
+  const push = (source: ClimateTraceSource) => {
+    line++;
+    const lat = parseFloat(source.lat ?? '');
+    const lon = parseFloat(source.lon ?? '');
+    const hasCoords = !isNaN(lat) && !isNaN(lon);
+    const place = placeOf(lat, lon);
+    const year = new Date(source.start_time ?? '').getFullYear();
+    const sector = `${source.sector}:${source.subsector}`;
+
+    if (sources) {
+      sources.push(
+        [
+          ...place,
+          String(year),
+          sector,
+          source.emissions_quantity ?? '',
+          hasCoords ? String(lat) : '',
+          hasCoords ? String(lon) : '',
+          source.source_name ?? '',
+        ],
+        line
+      );
+      return;
+    }
+
+    const emissions = parseFloat(source.emissions_quantity ?? '');
+    const key = [...place, year, sector].join('|');
+    totals.set(key, (totals.get(key) ?? 0) + (isNaN(emissions) ? 0 : emissions));
+  };
+
+  const finish = (): IngestResult => {
+    if (sources) return sources.finish();
+    const ingestor = createIngestor(AGGREGATE_HEADERS, AGGREGATE_MAPPING, '.');
+    let row = 0;
+    for (const [key, value] of totals) {
+      ingestor.push([...key.split('|'), String(value)], ++row);
+    }
+    return ingestor.finish();
+  };
+
+  return { push, finish };
+};
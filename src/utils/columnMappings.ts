@@ -0,0 +1,43 @@
+import { isColumnRole, type ColumnMapping } from './ingest';
+
+const STORAGE_KEY = 'columnMappings';
+
+/**
+ * Key identifying a file layout, so that uploads sharing the same headers
+ * reuse the mapping chosen last time.
+ */
+export const headerSignature = (headers: string[]): string =>
+  headers.map(h => h.trim().toLowerCase()).join('|');
+
+const readAll = (): Record<string, ColumnMapping> => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? (JSON.parse(saved) as Record<string, ColumnMapping>) : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Mapping previously remembered for these headers, if any. A stored value
+ * with any entry that is not a column role is ignored.
+ */
+export const loadSavedMapping = (headers: string[]): ColumnMapping | null => {
+  const saved: unknown = readAll()[headerSignature(headers)];
+  return Array.isArray(saved) && saved.length === headers.length && saved.every(isColumnRole)
+    ? saved
+    : null;
+};
+
+/**
+ * Remember a mapping for every future upload with the same headers.
+ */
+export const saveMapping = (headers: string[], mapping: ColumnMapping): void => {
+  try {
+    const all = readAll();
+    all[headerSignature(headers)] = mapping;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch {
+    // ignore
+  }
+};
@@ -0,0 +1,123 @@
+import Papa from 'papaparse';
+import type { CO2Data } from '@/components/DataUpload';
+import type { FilterState } from '@/components/FilterPanel';
+import { matchesFilter, type MultiFilter } from './filters';
+import { applyTemporalMode, yearSpan } from './temporal';
+
+/** What the two sides of a comparison differ in */
+export type ComparisonDimension = 'region' | 'year';
+
+export const COMPARISON_DIMENSIONS: ComparisonDimension[] = ['region', 'year'];
+
+/** One side of a comparison: a region or a year, with its own sector filter */
+export interface ComparisonSide {
+  region: string | null;
+  year: number | null;
+  sectors: MultiFilter;
+}
+
+export interface ComparisonRow {
+  /** Sector category, or '' for records without one */
+  category: string;
+  a: number;
+  b: number;
+  /** B minus A */
+  difference: number;
+  /** Difference relative to A, null when A is zero */
+  percent: number | null;
+}
+
+/**
+ * Records of one side. Comparing regions keeps the filtered year range and
+ * how it combines; comparing years keeps the filtered places. Either way the
+ * side's sector filter replaces the global one and the category filter still
+ * applies.
+ */
+export const sideRecords = (
+  data: CO2Data[],
+  dimension: ComparisonDimension,
+  side: ComparisonSide,
+  filters: FilterState,
+  metric: string
+): CO2Data[] => {
+  const records = data.filter(item => {
+    if (!matchesFilter(filters.sectorCategories, item.sectorCategory)) return false;
+    if (!matchesFilter(side.sectors, item.sector)) return false;
+    if (dimension === 'year') {
+      if (item.year !== side.year) return false;
+      if (!matchesFilter(filters.regions, item.region)) return false;
+      if (filters.province && item.province !== filters.province) return false;
+      if (filters.municipality && item.municipality !== filters.municipality) return false;
+      return true;
+    }
+    if (item.region !== side.region) return false;
+    return (
+      (filters.yearFrom === null || item.year >= filters.yearFrom) &&
+      (filters.yearTo === null || item.year <= filters.yearTo)
+    );
+  });
+  return dimension === 'region'
+    ? applyTemporalMode(records, [metric], filters.yearMode, yearSpan(records))
+    : records;
+};
+
+const differenceRow = (category: string, a: number, b: number): ComparisonRow => ({
+  category,
+  a,
+  b,
+  difference: b - a,
+  percent: a !== 0 ? ((b - a) / Math.abs(a)) * 100 : null,
+});
+
+/**
+ * Totals of a metric per sector category on both sides, largest first, and
+ * the overall totals.
+ */
+export const compareCategories = (
+  recordsA: CO2Data[],
+  recordsB: CO2Data[],
+  metric: string
+): { rows: ComparisonRow[]; total: ComparisonRow } => {
+  const totals = new Map<string, { a: number; b: number }>();
+  const add = (records: CO2Data[], side: 'a' | 'b') =>
+    records.forEach(item => {
+      const v = item[metric];
+      if (typeof v !== 'number' || !isFinite(v)) return;
+      const category = item.sectorCategory ?? '';
+      const entry = totals.get(category) ?? { a: 0, b: 0 };
+      entry[side] += v;
+      totals.set(category, entry);
+    });
+  add(recordsA, 'a');
+  add(recordsB, 'b');
+
+  const rows = Array.from(totals, ([category, { a, b }]) => differenceRow(category, a, b)).sort(
+    (x, y) => Math.max(Math.abs(y.a), Math.abs(y.b)) - Math.max(Math.abs(x.a), Math.abs(x.b))
+  );
+  const total = differenceRow(
+    '',
+    rows.reduce((sum, row) => sum + row.a, 0),
+    rows.reduce((sum, row) => sum + row.b, 0)
+  );
+  return { rows, total };
+};
+
+/**
+ * Serialize a comparison to CSV, one row per category and a total row.
+ */
+export const comparisonToCSV = (
+  rows: ComparisonRow[],
+  total: ComparisonRow,
+  labelA: string,
+  labelB: string
+): string =>
+  Papa.unparse({
+    fields: ['category', labelA, labelB, 'difference', 'percent_difference'],
+    data: [...rows, { ...total, category: 'total' }].map(row => [
+      row.category,
+      row.a,
+      row.b,
+      row.difference,
+      row.percent === null ? '' : row.percent.toFixed(2),
+    ]),
+  });
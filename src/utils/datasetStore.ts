@@ -0,0 +1,200 @@
+import type { CO2Data } from '@/components/DataUpload';
+import type { IngestRequest } from '@/workers/ingest.worker';
+
+export interface StoredDatasetMeta {
+  id: string;
+  name: string;
+  /** Epoch milliseconds */
+  uploadedAt: number;
+  rowCount: number;
+  sourceFile: string;
+  /** Hash of the uploaded bytes and import options, see hashUpload */
+  contentHash?: string;
+}
+
+const DB_NAME = 'eco-spain-mapper';
+const DB_VERSION = 1;
+// Metadata and records live apart so listing never loads the rows
+const META_STORE = 'datasets';
+const DATA_STORE = 'records';
+const DEFAULT_KEY = 'defaultDatasetId';
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+/**
+ * Be notified whenever a dataset is saved, renamed or deleted.
+ */
+export const subscribeDatasets = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+/**
+ * Whether an error comes from the browser running out of storage quota.
+ */
+export const isQuotaExceeded = (error: unknown): boolean =>
+  error instanceof DOMException &&
+  (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+const openDB = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(DATA_STORE)) {
+        db.createObjectStore(DATA_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Run `work` in a transaction over both stores. It returns a getter that is
+ * read once the transaction has committed.
+ */
+const transact = async <T>(
+  mode: IDBTransactionMode,
+  work: (meta: IDBObjectStore, records: IDBObjectStore) => () => T
+): Promise<T> => {
+  const db = await openDB();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction([META_STORE, DATA_STORE], mode);
+    const result = work(tx.objectStore(META_STORE), tx.objectStore(DATA_STORE));
+    tx.oncomplete = () => {
+      db.close();
+      resolve(result());
+    };
+    const fail = () => {
+      db.close();
+      reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+    };
+    tx.onerror = fail;
+    tx.onabort = fail;
+  });
+};
+
+const newId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+/**
+ * Saved datasets, most recent first.
+ */
+export const listDatasets = async (): Promise<StoredDatasetMeta[]> => {
+  const all = await transact('readonly', meta => {
+    const request = meta.getAll() as IDBRequest<StoredDatasetMeta[]>;
+    return () => request.result;
+  });
+  return all.sort((a, b) => b.uploadedAt - a.uploadedAt);
+};
+
+const toHex = (digest: ArrayBuffer): string =>
+  Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+
+/**
+ * SHA-256 of an uploaded file together with the options it was imported
+ * with, so the same bytes read another way count as another dataset.
+ * Undefined where the browser offers no digest (outside secure contexts).
+ */
+export const hashUpload = async ({ file, ...options }: IngestRequest): Promise<string | undefined> => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return undefined;
+  const fileHash = toHex(await crypto.subtle.digest('SHA-256', await file.arrayBuffer()));
+  const keyed = new TextEncoder().encode(`${fileHash}|${JSON.stringify(options)}`);
+  return toHex(await crypto.subtle.digest('SHA-256', keyed));
+};
+
+/**
+ * A saved dataset with the same content hash, taken to be the same upload
+ * whatever the file was called.
+ */
+export const findSavedDataset = async (
+  contentHash: string
+): Promise<StoredDatasetMeta | undefined> =>
+  (await listDatasets()).find(d => d.contentHash === contentHash);
+
+export const saveDataset = async (
+  name: string,
+  sourceFile: string,
+  data: CO2Data[],
+  contentHash?: string
+): Promise<StoredDatasetMeta> => {
+  const entry: StoredDatasetMeta = {
+    id: newId(),
+    name,
+    uploadedAt: Date.now(),
+    rowCount: data.length,
+    sourceFile,
+    contentHash,
+  };
+  await transact('readwrite', (meta, records) => {
+    meta.put(entry);
+    records.put(data, entry.id);
+    return () => undefined;
+  });
+  notify();
+  return entry;
+};
+
+/**
+ * Records of a saved dataset, or null if it no longer exists.
+ */
+export const loadDataset = (id: string): Promise<CO2Data[] | null> =>
+  transact('readonly', (_, records) => {
+    const request = records.get(id) as IDBRequest<CO2Data[] | undefined>;
+    return () => request.result ?? null;
+  });
+
+export const renameDataset = async (id: string, name: string): Promise<void> => {
+  await transact('readwrite', meta => {
+    const request = meta.get(id) as IDBRequest<StoredDatasetMeta | undefined>;
+    request.onsuccess = () => {
+      if (request.result) meta.put({ ...request.result, name });
+    };
+    return () => undefined;
+  });
+  notify();
+};
+
+export const deleteDataset = async (id: string): Promise<void> => {
+  await transact('readwrite', (meta, records) => {
+    meta.delete(id);
+    records.delete(id);
+    return () => undefined;
+  });
+  if (getDefaultDatasetId() === id) setDefaultDatasetId(null);
+  notify();
+};
+
+/**
+ * Saved dataset loaded on startup instead of the bundled CSV, if any.
+ */
+export const getDefaultDatasetId = (): string | null => {
+  try {
+    return localStorage.getItem(DEFAULT_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const setDefaultDatasetId = (id: string | null): void => {
+  try {
+    if (id) {
+      localStorage.setItem(DEFAULT_KEY, id);
+    } else {
+      localStorage.removeItem(DEFAULT_KEY);
+    }
+  } catch {
+    // ignore
+  }
+  notify();
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import type { CO2Data } from '@/components/DataUpload';
+import {
+  applyDerivedMetrics,
+  isDerivedMetric,
+  numericColumns,
+  validateDerivedMetric,
+} from './derivedMetrics';
+
+const record = (overrides: Partial<CO2Data>): CO2Data => ({
+  region: 'Madrid',
+  year: 2022,
+  sector: 'power',
+  emissions: 10,
+  ...overrides,
+});
+
+describe('numericColumns', () => {
+  it('lists finite numeric fields other than years and coordinates', () => {
+    const records = [record({ co2: 1, lat: 40 }), record({ ch4: NaN, note: '3' })];
+    expect(numericColumns(records)).toEqual(['co2', 'emissions']);
+  });
+});
+
+describe('validateDerivedMetric', () => {
+  const columns = ['emissions', 'co2'];
+  const saved = [{ name: 'double', formula: 'emissions * 2' }];
+
+  it('accepts a new name with a valid formula', () => {
+    expect(validateDerivedMetric({ name: ' ratio ', formula: 'co2 / emissions' }, columns, saved)).toBeNull();
+  });
+
+  it('refuses empty names and names of fields, columns or saved metrics', () => {
+    expect(validateDerivedMetric({ name: ' ', formula: 'co2' }, columns, saved)).toEqual({
+      reason: 'emptyName',
+    });
+    for (const name of ['region', 'co2', 'double']) {
+      expect(validateDerivedMetric({ name, formula: 'co2' }, columns, saved)).toEqual({
+        reason: 'nameTaken',
+        detail: name,
+      });
+    }
+  });
+
+  it('reports formula errors', () => {
+    expect(validateDerivedMetric({ name: 'x', formula: 'ch4' }, columns, saved)).toEqual({
+      reason: 'unknownColumn',
+      detail: 'ch4',
+    });
+  });
+});
+
+describe('applyDerivedMetrics', () => {
+  it('adds each metric to the records that have its columns', () => {
+    const records = [record({ co2: 3 }), record({})];
+    const result = applyDerivedMetrics(records, [{ name: 'scaled', formula: 'co2 * 2' }], ['co2', 'emissions']);
+    expect(result.map(r => r.scaled)).toEqual([6, undefined]);
+    expect(records[0].scaled).toBeUndefined();
+  });
+
+  it('skips metrics clashing with a column or reading unknown ones', () => {
+    const records = [record({})];
+    const metrics = [
+      { name: 'emissions', formula: '1' },
+      { name: 'other', formula: 'ch4' },
+    ];
+    expect(applyDerivedMetrics(records, metrics, ['emissions'])).toBe(records);
+  });
+});
+
+describe('isDerivedMetric', () => {
+  it('accepts only objects with a string name and formula', () => {
+    expect(isDerivedMetric({ name: 'x', formula: 'co2' })).toBe(true);
+    expect(isDerivedMetric({ name: 'x' })).toBe(false);
+    expect(isDerivedMetric({ name: 1, formula: 'co2' })).toBe(false);
+    expect(isDerivedMetric(null)).toBe(false);
+    expect(isDerivedMetric('x')).toBe(false);
+  });
+});
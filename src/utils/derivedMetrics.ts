@@ -0,0 +1,105 @@
+import type { CO2Data } from '@/components/DataUpload';
+import { evaluateFormula, parseFormula, type FormulaError } from './formula';
+
+/** A metric computed from a formula over other columns */
+export interface DerivedMetric {
+  name: string;
+  formula: string;
+}
+
+/** Whether a value read back from storage is a derived metric */
+export const isDerivedMetric = (value: unknown): value is DerivedMetric =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as DerivedMetric).name === 'string' &&
+  typeof (value as DerivedMetric).formula === 'string';
+
+// Numeric fields that are not metrics
+const NON_METRIC_FIELDS = ['year', 'lat', 'lng'];
+
+// Record fields a derived metric must not overwrite
+const RESERVED_NAMES = [
+  'region',
+  'province',
+  'municipality',
+  'municipalityCode',
+  'year',
+  'sector',
+  'sectorCategory',
+  'sectorValue',
+  'coordinates',
+  'dataset',
+  'lat',
+  'lng',
+];
+
+/**
+ * Numeric columns of the records that can be mapped as metrics, sorted.
+ */
+export const numericColumns = (records: CO2Data[]): string[] => {
+  const metrics = new Set<string>();
+  records.forEach(record => {
+    Object.entries(record).forEach(([k, v]) => {
+      if (typeof v === 'number' && isFinite(v) && !NON_METRIC_FIELDS.includes(k)) {
+        metrics.add(k);
+      }
+    });
+  });
+  return Array.from(metrics).sort();
+};
+
+/** Why a derived metric was refused, either its name or its formula */
+export type DerivedMetricError =
+  | { reason: 'emptyName' | 'nameTaken'; detail?: string }
+  | FormulaError;
+
+/**
+ * Check a new derived metric against the dataset's columns and the derived
+ * metrics already saved. Formulas read dataset columns only, so they cannot
+ * refer to each other in a cycle.
+ */
+export const validateDerivedMetric = (
+  metric: DerivedMetric,
+  columns: string[],
+  saved: DerivedMetric[]
+): DerivedMetricError | null => {
+  const name = metric.name.trim();
+  if (!name) return { reason: 'emptyName' };
+  if (
+    RESERVED_NAMES.includes(name) ||
+    columns.includes(name) ||
+    saved.some(other => other.name === name)
+  ) {
+    return { reason: 'nameTaken', detail: name };
+  }
+  const parsed = parseFormula(metric.formula, columns);
+  return 'error' in parsed ? parsed.error : null;
+};
+
+/**
+ * Add each derived metric to the records that have every column its formula
+ * reads. Formulas apply row by row, before records are summed per place, so
+ * a ratio of two columns sums the per-row ratios. `columns` are the records'
+ * numeric columns; formulas reading others, and names clashing with them,
+ * are skipped.
+ */
+export const applyDerivedMetrics = (
+  records: CO2Data[],
+  metrics: DerivedMetric[],
+  columns: string[]
+): CO2Data[] => {
+  const parsed = metrics.flatMap(metric => {
+    if (columns.includes(metric.name)) return [];
+    const result = parseFormula(metric.formula, columns);
+    return 'error' in result ? [] : [{ name: metric.name, root: result.root }];
+  });
+  if (parsed.length === 0) return records;
+  return records.map(record => {
+    const copy = { ...record };
+    parsed.forEach(({ name, root }) => {
+      const value = evaluateFormula(root, record);
+      if (value !== undefined) copy[name] = value;
+    });
+    return copy;
+  });
+};
@@ -0,0 +1,17 @@
+/**
+ * Trigger a browser download of text content.
+ */
+export const downloadText = (
+  filename: string,
+  content: string,
+  type = 'text/csv;charset=utf-8'
+): void => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
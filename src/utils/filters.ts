@@ -0,0 +1,35 @@
+/**
+ * A filter over several values: records match when their value is one of
+ * `values`, or when it is none of them with `exclude` on. No values means
+ * no filtering.
+ */
+export interface MultiFilter {
+  values: string[];
+  exclude: boolean;
+}
+
+export const EMPTY_FILTER: MultiFilter = { values: [], exclude: false };
+
+export const isFilterActive = (filter: MultiFilter): boolean => filter.values.length > 0;
+
+export const matchesFilter = (filter: MultiFilter, value: string | null | undefined): boolean =>
+  !isFilterActive(filter) || filter.values.includes(value ?? '') !== filter.exclude;
+
+/**
+ * The one value a filter narrows down to, if it includes exactly one.
+ */
+export const singleValue = (filter: MultiFilter): string | null =>
+  !filter.exclude && filter.values.length === 1 ? filter.values[0] : null;
+
+export const includeOnly = (value: string | null): MultiFilter =>
+  value === null ? EMPTY_FILTER : { values: [value], exclude: false };
+
+/**
+ * Whether a stored value has the MultiFilter shape, so filters saved by
+ * older versions fall back to the default.
+ */
+export const isMultiFilter = (value: unknown): value is MultiFilter =>
+  typeof value === 'object' &&
+  value !== null &&
+  Array.isArray((value as MultiFilter).values) &&
+  typeof (value as MultiFilter).exclude === 'boolean';
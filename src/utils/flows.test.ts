@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import type { CO2Data } from '@/components/DataUpload';
+import { applyFlow, flowTotals } from './flows';
+import { applyTemporalMode } from './temporal';
+
+const record = (year: number, emissions: number): CO2Data => ({
+  region: 'Galicia',
+  year,
+  sector: 'forest',
+  emissions,
+});
+
+describe('applyFlow', () => {
+  const records = [record(2022, 10), record(2022, -4)];
+
+  it('leaves records untouched for the net balance', () => {
+    expect(applyFlow(records, ['emissions'], 'net')).toBe(records);
+  });
+
+  it('zeroes the values on the other side of zero', () => {
+    expect(applyFlow(records, ['emissions'], 'gross').map(r => r.emissions)).toEqual([10, 0]);
+    expect(applyFlow(records, ['emissions'], 'removals').map(r => r.emissions)).toEqual([0, -4]);
+  });
+
+  it('does not modify the input records', () => {
+    applyFlow(records, ['emissions'], 'gross');
+    expect(records[1].emissions).toBe(-4);
+  });
+});
+
+describe('flowTotals', () => {
+  it('splits gross emissions and removals before netting', () => {
+    expect(flowTotals([record(2022, 10), record(2022, -4), record(2022, 3)], 'emissions')).toEqual({
+      gross: 13,
+      removals: -4,
+      net: 9,
+    });
+  });
+
+  it('collapses each side separately', () => {
+    const records = [record(2021, 10), record(2021, -6), record(2022, 12), record(2022, -2)];
+    const totals = flowTotals(records, 'emissions', rows =>
+      applyTemporalMode(rows, ['emissions'], 'change', { first: 2021, last: 2022, count: 2 })
+    );
+    expect(totals).toEqual({ gross: 2, removals: 4, net: 6 });
+  });
+});
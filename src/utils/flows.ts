@@ -0,0 +1,56 @@
+import type { CO2Data } from '@/components/DataUpload';
+
+/**
+ * Which side of the balance is shown: everything (net), only emitting rows
+ * (gross) or only removing rows such as forest land (removals).
+ */
+export type EmissionsFlow = 'net' | 'gross' | 'removals';
+
+export const EMISSIONS_FLOWS: EmissionsFlow[] = ['net', 'gross', 'removals'];
+
+export interface FlowTotals {
+  gross: number;
+  /** Sum of the negative values, so zero or below */
+  removals: number;
+  net: number;
+}
+
+/**
+ * Keep only the values of the metrics on the chosen side of zero; the
+ * others count as zero. Applied per record, so a community's gross total
+ * leaves out its forest removals rather than netting them off.
+ */
+export const applyFlow = (
+  records: CO2Data[],
+  metrics: string[],
+  flow: EmissionsFlow
+): CO2Data[] => {
+  if (flow === 'net') return records;
+  return records.map(item => {
+    const copy = { ...item };
+    metrics.forEach(metric => {
+      const v = item[metric];
+      if (typeof v !== 'number') return;
+      copy[metric] = flow === 'gross' ? Math.max(0, v) : Math.min(0, v);
+    });
+    return copy;
+  });
+};
+
+/**
+ * Gross, removals and net totals of a metric over the records. Each side is
+ * split off before `collapse` combines the years, so a change between years
+ * compares gross with gross rather than mixing signs.
+ */
+export const flowTotals = (
+  records: CO2Data[],
+  metric: string,
+  collapse: (records: CO2Data[]) => CO2Data[] = r => r
+): FlowTotals => {
+  const total = (flow: EmissionsFlow) =>
+    collapse(applyFlow(records, [metric], flow)).reduce((sum, item) => {
+      const v = item[metric];
+      return typeof v === 'number' && isFinite(v) ? sum + v : sum;
+    }, 0);
+  return { gross: total('gross'), removals: total('removals'), net: total('net') };
+};
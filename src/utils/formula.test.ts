@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateFormula, parseFormula } from './formula';
+
+const COLUMNS = ['emissions', 'population', 'co2', 'ch4', 'co2e 100yr'];
+
+const evaluate = (source: string, record: Record<string, unknown>) => {
+  const parsed = parseFormula(source, COLUMNS);
+  if ('error' in parsed) throw new Error(parsed.error.reason);
+  return evaluateFormula(parsed.root, record);
+};
+
+describe('parseFormula', () => {
+  it('lists the columns a formula reads', () => {
+    const parsed = parseFormula('co2 + ch4 * 28 - co2', COLUMNS);
+    expect('columns' in parsed && parsed.columns).toEqual(['co2', 'ch4']);
+  });
+
+  it.each([
+    ['', 'empty', undefined],
+    ['co2 +', 'unexpectedEnd', undefined],
+    ['(co2', 'unexpectedEnd', undefined],
+    ['co2 ** 2', 'unexpectedToken', '*'],
+    ['co2 ch4', 'unexpectedToken', 'ch4'],
+    ['alert(1)', 'unexpectedToken', '('],
+    ['co2 $ 1', 'unexpectedCharacter', '$'],
+    ['"co2', 'unclosedQuote', undefined],
+    ['methane * 2', 'unknownColumn', 'methane'],
+    [`co2${' + 1'.repeat(200)}`, 'tooLong', undefined],
+  ])('refuses %j as %s', (source, reason, detail) => {
+    expect(parseFormula(source, COLUMNS)).toEqual({ error: { reason, detail } });
+  });
+});
+
+describe('evaluateFormula', () => {
+  const record = { emissions: 10, population: 4, co2: 1, ch4: 2, 'co2e 100yr': 3 };
+
+  it('applies the usual precedence', () => {
+    expect(evaluate('co2 + ch4 * 28', record)).toBe(57);
+    expect(evaluate('(co2 + ch4) * 28', record)).toBe(84);
+    expect(evaluate('emissions / population * 1000', record)).toBe(2500);
+  });
+
+  it('binds powers to the right and tighter than a leading minus', () => {
+    expect(evaluate('2 ^ 3 ^ 2', record)).toBe(512);
+    expect(evaluate('-2 ^ 2', record)).toBe(-4);
+    expect(evaluate('--co2', record)).toBe(1);
+  });
+
+  it('reads decimals, exponents and quoted column names', () => {
+    expect(evaluate('1.5e3 - .5', record)).toBe(1499.5);
+    expect(evaluate('"co2e 100yr" * 2', record)).toBe(6);
+  });
+
+  it('is undefined for missing columns and results that are not finite', () => {
+    expect(evaluate('co2 + ch4', { co2: 1 })).toBeUndefined();
+    expect(evaluate('co2 / ch4', { co2: 1, ch4: 0 })).toBeUndefined();
+  });
+});
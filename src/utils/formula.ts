@@ -0,0 +1,226 @@
+/**
+ * Arithmetic formulas over record columns, e.g. `co2 + ch4 * 28`. Formulas
+ * are parsed into a tree and evaluated by walking it, never with `eval`, so
+ * they can only read columns and do arithmetic.
+ *
+ * Grammar, loosest binding first:
+ *   expression := term (("+" | "-") term)*
+ *   term       := unary (("*" | "/") unary)*
+ *   unary      := "-" unary | power
+ *   power      := primary ("^" unary)?
+ *   primary    := number | column | "(" expression ")"
+ * Columns are bare names (letters, digits, `_` and `.`) or double-quoted
+ * names for anything else.
+ */
+
+export type FormulaNode =
+  | { type: 'number'; value: number }
+  | { type: 'column'; name: string }
+  | { type: 'negate'; operand: FormulaNode }
+  | { type: 'binary'; operator: '+' | '-' | '*' | '/' | '^'; left: FormulaNode; right: FormulaNode };
+
+/** Why a formula was refused; `detail` is the offending text, if any */
+export type FormulaErrorReason =
+  | 'empty'
+  | 'unexpectedCharacter'
+  | 'unexpectedToken'
+  | 'unexpectedEnd'
+  | 'unclosedQuote'
+  | 'unknownColumn'
+  | 'tooLong';
+
+export interface FormulaError {
+  reason: FormulaErrorReason;
+  detail?: string;
+}
+
+export type ParsedFormula = { root: FormulaNode; columns: string[] } | { error: FormulaError };
+
+// Long formulas are most likely pasted by mistake and deep trees are slow
+const MAX_FORMULA_LENGTH = 500;
+
+type Token =
+  | { type: 'number'; value: number; text: string }
+  | { type: 'column'; name: string; text: string }
+  | { type: 'operator'; text: '+' | '-' | '*' | '/' | '^' | '(' | ')' };
+
+class FormulaSyntaxError {
+  constructor(readonly error: FormulaError) {}
+}
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if ('+-*/^()'.includes(char)) {
+      tokens.push({ type: 'operator', text: char as '+' });
+      i++;
+    } else if (/[0-9.]/.test(char)) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i));
+      if (!match) throw new FormulaSyntaxError({ reason: 'unexpectedCharacter', detail: char });
+      tokens.push({ type: 'number', value: Number(match[0]), text: match[0] });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const name = /^[A-Za-z_][A-Za-z0-9_.]*/.exec(source.slice(i))![0];
+      tokens.push({ type: 'column', name, text: name });
+      i += name.length;
+    } else if (char === '"') {
+      const end = source.indexOf('"', i + 1);
+      if (end === -1) throw new FormulaSyntaxError({ reason: 'unclosedQuote' });
+      const name = source.slice(i + 1, end);
+      tokens.push({ type: 'column', name, text: `"${name}"` });
+      i = end + 1;
+    } else {
+      throw new FormulaSyntaxError({ reason: 'unexpectedCharacter', detail: char });
+    }
+  }
+  return tokens;
+};
+
+const parseTokens = (tokens: Token[]): FormulaNode => {
+  let position = 0;
+  const peek = (): Token | undefined => tokens[position];
+  const isOperator = (...operators: string[]) => {
+    const token = peek();
+    return token?.type === 'operator' && operators.includes(token.text);
+  };
+  const fail = (token: Token | undefined): never => {
+    throw new FormulaSyntaxError(
+      token ? { reason: 'unexpectedToken', detail: token.text } : { reason: 'unexpectedEnd' }
+    );
+  };
+
+  const expression = (): FormulaNode => {
+    let node = term();
+    while (isOperator('+', '-')) {
+      const operator = (tokens[position++] as { text: '+' | '-' }).text;
+      node = { type: 'binary', operator, left: node, right: term() };
+    }
+    return node;
+  };
+  const term = (): FormulaNode => {
+    let node = unary();
+    while (isOperator('*', '/')) {
+      const operator = (tokens[position++] as { text: '*' | '/' }).text;
+      node = { type: 'binary', operator, left: node, right: unary() };
+    }
+    return node;
+  };
+  const unary = (): FormulaNode => {
+    if (isOperator('-')) {
+      position++;
+      return { type: 'negate', operand: unary() };
+    }
+    return power();
+  };
+  // Right-associative and binding tighter than a leading minus: -2^2 is -4
+  const power = (): FormulaNode => {
+    const base = primary();
+    if (!isOperator('^')) return base;
+    position++;
+    return { type: 'binary', operator: '^', left: base, right: unary() };
+  };
+  const primary = (): FormulaNode => {
+    const token = peek();
+    if (token?.type === 'number') {
+      position++;
+      return { type: 'number', value: token.value };
+    }
+    if (token?.type === 'column') {
+      position++;
+      return { type: 'column', name: token.name };
+    }
+    if (isOperator('(')) {
+      position++;
+      const node = expression();
+      if (!isOperator(')')) fail(peek());
+      position++;
+      return node;
+    }
+    return fail(token);
+  };
+
+  const root = expression();
+  if (position < tokens.length) fail(peek());
+  return root;
+};
+
+const collectColumns = (node: FormulaNode, into: Set<string>): Set<string> => {
+  switch (node.type) {
+    case 'column':
+      into.add(node.name);
+      break;
+    case 'negate':
+      collectColumns(node.operand, into);
+      break;
+    case 'binary':
+      collectColumns(node.left, into);
+      collectColumns(node.right, into);
+      break;
+  }
+  return into;
+};
+
+/**
+ * Parse a formula, checking that every column it reads is one of `columns`.
+ */
+export const parseFormula = (source: string, columns: string[]): ParsedFormula => {
+  if (!source.trim()) return { error: { reason: 'empty' } };
+  if (source.length > MAX_FORMULA_LENGTH) return { error: { reason: 'tooLong' } };
+  try {
+    const root = parseTokens(tokenize(source));
+    const used = Array.from(collectColumns(root, new Set()));
+    const unknown = used.find(name => !columns.includes(name));
+    if (unknown !== undefined) {
+      return { error: { reason: 'unknownColumn', detail: unknown } };
+    }
+    return { root, columns: used };
+  } catch (err) {
+    if (err instanceof FormulaSyntaxError) return { error: err.error };
+    throw err;
+  }
+};
+
+/**
+ * Value of a formula for one record, or undefined when a column it reads is
+ * not a number there or the result is not finite, e.g. after dividing by
+ * zero.
+ */
+export const evaluateFormula = (
+  node: FormulaNode,
+  record: Record<string, unknown>
+): number | undefined => {
+  const evaluate = (n: FormulaNode): number => {
+    switch (n.type) {
+      case 'number':
+        return n.value;
+      case 'column': {
+        const v = record[n.name];
+        return typeof v === 'number' ? v : NaN;
+      }
+      case 'negate':
+        return -evaluate(n.operand);
+      case 'binary': {
+        const left = evaluate(n.left);
+        const right = evaluate(n.right);
+        switch (n.operator) {
+          case '+':
+            return left + right;
+          case '-':
+            return left - right;
+          case '*':
+            return left * right;
+          case '/':
+            return left / right;
+          case '^':
+            return left ** right;
+        }
+      }
+    }
+  };
+  const value = evaluate(node);
+  return isFinite(value) ? value : undefined;
+};
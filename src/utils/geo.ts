@@ -0,0 +1,140 @@
+/** GeoJSON position: [lng, lat] */
+export type Position = [number, number];
+
+export type Geometry =
+  | { type: 'Point'; coordinates: Position }
+  | { type: 'MultiPoint'; coordinates: Position[] }
+  | { type: 'LineString'; coordinates: Position[] }
+  | { type: 'MultiLineString'; coordinates: Position[][] }
+  | { type: 'Polygon'; coordinates: Position[][] }
+  | { type: 'MultiPolygon'; coordinates: Position[][][] }
+  | { type: 'GeometryCollection'; geometries: Geometry[] };
+
+export interface Feature<P = Record<string, unknown>> {
+  type: 'Feature';
+  geometry: Geometry | null;
+  properties: P | null;
+}
+
+export interface FeatureCollection<P = Record<string, unknown>> {
+  type: 'FeatureCollection';
+  features: Feature<P>[];
+}
+
+const mean = (points: Position[]): Position | null => {
+  if (points.length === 0) return null;
+  const [x, y] = points.reduce(([sx, sy], [px, py]) => [sx + px, sy + py], [0, 0]);
+  return [x / points.length, y / points.length];
+};
+
+/**
+ * Signed area and area-weighted centroid of a ring (shoelace formula).
+ */
+const ringCentroid = (ring: Position[]): { area: number; centroid: Position } | null => {
+  let area = 0;
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [x0, y0] = ring[j];
+    const [x1, y1] = ring[i];
+    const cross = x0 * y1 - x1 * y0;
+    area += cross;
+    cx += (x0 + x1) * cross;
+    cy += (y0 + y1) * cross;
+  }
+  area /= 2;
+  if (area === 0) return null;
+  return { area, centroid: [cx / (6 * area), cy / (6 * area)] };
+};
+
+const polygonsCentroid = (polygons: Position[][][]): Position | null => {
+  let total = 0;
+  let x = 0;
+  let y = 0;
+  for (const [outer] of polygons) {
+    const rc = outer && ringCentroid(outer);
+    if (!rc) continue;
+    const weight = Math.abs(rc.area);
+    total += weight;
+    x += rc.centroid[0] * weight;
+    y += rc.centroid[1] * weight;
+  }
+  if (total === 0) return mean(polygons.flatMap(([outer]) => outer ?? []));
+  return [x / total, y / total];
+};
+
+/**
+ * Representative [lng, lat] point of a geometry: the position of a point,
+ * the vertex mean of points and lines, and the area-weighted centroid of the
+ * outer rings of polygons.
+ */
+export const geometryCentroid = (geometry: Geometry | null): Position | null => {
+  if (!geometry) return null;
+  switch (geometry.type) {
+    case 'Point':
+      return geometry.coordinates;
+    case 'MultiPoint':
+    case 'LineString':
+      return mean(geometry.coordinates);
+    case 'MultiLineString':
+      return mean(geometry.coordinates.flat());
+    case 'Polygon':
+      return polygonsCentroid([geometry.coordinates]);
+    case 'MultiPolygon':
+      return polygonsCentroid(geometry.coordinates);
+    case 'GeometryCollection':
+      return mean(
+        geometry.geometries
+          .map(geometryCentroid)
+          .filter((p): p is Position => p !== null)
+      );
+    default:
+      return null;
+  }
+};
+
+const polygonsOf = (geometry: Geometry | null): Position[][][] => {
+  if (geometry?.type === 'Polygon') return [geometry.coordinates];
+  if (geometry?.type === 'MultiPolygon') return geometry.coordinates;
+  return [];
+};
+
+/**
+ * Whether a point lies inside a polygon geometry (even-odd rule, so holes
+ * are excluded).
+ */
+export const pointInGeometry = ([x, y]: Position, geometry: Geometry | null): boolean =>
+  polygonsOf(geometry).some(rings => {
+    let inside = false;
+    for (const ring of rings) {
+      for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [xi, yi] = ring[i];
+        const [xj, yj] = ring[j];
+        if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+          inside = !inside;
+        }
+      }
+    }
+    return inside;
+  });
+
+/**
+ * Planar distance, in degrees, from a point to the nearest polygon edge.
+ */
+export const distanceToGeometry = ([x, y]: Position, geometry: Geometry | null): number => {
+  let best = Infinity;
+  for (const rings of polygonsOf(geometry)) {
+    for (const ring of rings) {
+      for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [x0, y0] = ring[j];
+        const [x1, y1] = ring[i];
+        const dx = x1 - x0;
+        const dy = y1 - y0;
+        const lengthSq = dx * dx + dy * dy;
+        const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((x - x0) * dx + (y - y0) * dy) / lengthSq));
+        best = Math.min(best, Math.hypot(x - (x0 + t * dx), y - (y0 + t * dy)));
+      }
+    }
+  }
+  return best;
+};
@@ -0,0 +1,152 @@
+// Fallback coordinates for Spanish autonomous communities
+export const REGION_COORDS: Record<string, [number, number]> = {
+  'Andalucía': [37.7749, -4.7324],
+  'Aragón': [41.5868, -0.8296],
+  'Asturias': [43.3619, -5.8494],
+  'Baleares': [39.6953, 3.0176],
+  'Canarias': [28.2916, -16.6291],
+  'Cantabria': [43.1828, -3.9878],
+  'Castilla-La Mancha': [39.5663, -2.9908],
+  'Castilla y León': [41.6523, -4.7245],
+  'Cataluña': [41.8019, 1.8734],
+  'Comunidad Valenciana': [39.484, -0.7532],
+  'Extremadura': [39.1622, -6.3432],
+  'Galicia': [42.5751, -8.1339],
+  'Madrid': [40.4165, -3.7026],
+  'Murcia': [37.9922, -1.1307],
+  'Navarra': [42.6954, -1.6761],
+  'País Vasco': [43.263, -2.934],
+  'La Rioja': [42.2871, -2.5396],
+  'Ceuta': [35.8894, -5.3213],
+  'Melilla': [35.2923, -2.9381],
+  'España': [40.4168, -3.7038]
+};
+
+// INE codes of the autonomous communities and cities
+export const REGION_BY_CODE: Record<string, string> = {
+  '01': 'Andalucía',
+  '02': 'Aragón',
+  '03': 'Asturias',
+  '04': 'Baleares',
+  '05': 'Canarias',
+  '06': 'Cantabria',
+  '07': 'Castilla y León',
+  '08': 'Castilla-La Mancha',
+  '09': 'Cataluña',
+  '10': 'Comunidad Valenciana',
+  '11': 'Extremadura',
+  '12': 'Galicia',
+  '13': 'Madrid',
+  '14': 'Murcia',
+  '15': 'Navarra',
+  '16': 'País Vasco',
+  '17': 'La Rioja',
+  '18': 'Ceuta',
+  '19': 'Melilla',
+};
+
+export interface Province {
+  name: string;
+  /** Autonomous community it belongs to */
+  region: string;
+  /** Other official or customary names */
+  aliases?: string[];
+}
+
+// INE province codes
+export const PROVINCES: Record<string, Province> = {
+  '01': { name: 'Álava', region: 'País Vasco', aliases: ['Araba', 'Araba/Álava'] },
+  '02': { name: 'Albacete', region: 'Castilla-La Mancha' },
+  '03': { name: 'Alicante', region: 'Comunidad Valenciana', aliases: ['Alacant', 'Alacant/Alicante'] },
+  '04': { name: 'Almería', region: 'Andalucía' },
+  '05': { name: 'Ávila', region: 'Castilla y León' },
+  '06': { name: 'Badajoz', region: 'Extremadura' },
+  '07': { name: 'Baleares', region: 'Baleares', aliases: ['Illes Balears', 'Islas Baleares', 'Balears'] },
+  '08': { name: 'Barcelona', region: 'Cataluña' },
+  '09': { name: 'Burgos', region: 'Castilla y León' },
+  '10': { name: 'Cáceres', region: 'Extremadura' },
+  '11': { name: 'Cádiz', region: 'Andalucía' },
+  '12': { name: 'Castellón', region: 'Comunidad Valenciana', aliases: ['Castelló', 'Castelló/Castellón', 'Castellón de la Plana'] },
+  '13': { name: 'Ciudad Real', region: 'Castilla-La Mancha' },
+  '14': { name: 'Córdoba', region: 'Andalucía' },
+  '15': { name: 'A Coruña', region: 'Galicia', aliases: ['La Coruña', 'Coruña'] },
+  '16': { name: 'Cuenca', region: 'Castilla-La Mancha' },
+  '17': { name: 'Girona', region: 'Cataluña', aliases: ['Gerona'] },
+  '18': { name: 'Granada', region: 'Andalucía' },
+  '19': { name: 'Guadalajara', region: 'Castilla-La Mancha' },
+  '20': { name: 'Gipuzkoa', region: 'País Vasco', aliases: ['Guipúzcoa'] },
+  '21': { name: 'Huelva', region: 'Andalucía' },
+  '22': { name: 'Huesca', region: 'Aragón' },
+  '23': { name: 'Jaén', region: 'Andalucía' },
+  '24': { name: 'León', region: 'Castilla y León' },
+  '25': { name: 'Lleida', region: 'Cataluña', aliases: ['Lérida'] },
+  '26': { name: 'La Rioja', region: 'La Rioja', aliases: ['Rioja'] },
+  '27': { name: 'Lugo', region: 'Galicia' },
+  '28': { name: 'Madrid', region: 'Madrid' },
+  '29': { name: 'Málaga', region: 'Andalucía' },
+  '30': { name: 'Murcia', region: 'Murcia' },
+  '31': { name: 'Navarra', region: 'Navarra', aliases: ['Nafarroa'] },
+  '32': { name: 'Ourense', region: 'Galicia', aliases: ['Orense'] },
+  '33': { name: 'Asturias', region: 'Asturias' },
+  '34': { name: 'Palencia', region: 'Castilla y León' },
+  '35': { name: 'Las Palmas', region: 'Canarias' },
+  '36': { name: 'Pontevedra', region: 'Galicia' },
+  '37': { name: 'Salamanca', region: 'Castilla y León' },
+  '38': { name: 'Santa Cruz de Tenerife', region: 'Canarias', aliases: ['Tenerife'] },
+  '39': { name: 'Cantabria', region: 'Cantabria' },
+  '40': { name: 'Segovia', region: 'Castilla y León' },
+  '41': { name: 'Sevilla', region: 'Andalucía' },
+  '42': { name: 'Soria', region: 'Castilla y León' },
+  '43': { name: 'Tarragona', region: 'Cataluña' },
+  '44': { name: 'Teruel', region: 'Aragón' },
+  '45': { name: 'Toledo', region: 'Castilla-La Mancha' },
+  '46': { name: 'Valencia', region: 'Comunidad Valenciana', aliases: ['València', 'València/Valencia'] },
+  '47': { name: 'Valladolid', region: 'Castilla y León' },
+  '48': { name: 'Bizkaia', region: 'País Vasco', aliases: ['Vizcaya'] },
+  '49': { name: 'Zamora', region: 'Castilla y León' },
+  '50': { name: 'Zaragoza', region: 'Aragón' },
+  '51': { name: 'Ceuta', region: 'Ceuta' },
+  '52': { name: 'Melilla', region: 'Melilla' },
+};
+
+/**
+ * Province of an INE municipality code, from its first two digits.
+ */
+export const provinceOfMunicipality = (code: string): Province | undefined =>
+  PROVINCES[code.slice(0, 2)];
+
+/** Lowercase and strip accents so names compare loosely */
+export const normalizePlaceName = (name: string): string =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const PROVINCE_LOOKUP = new Map<string, Province>(
+  Object.values(PROVINCES).flatMap(province =>
+    [province.name, ...(province.aliases ?? [])].map(
+      name => [normalizePlaceName(name), province] as const
+    )
+  )
+);
+
+/**
+ * Province from its name, an alias or its INE code ("8" or "08").
+ */
+export const findProvince = (value: string): Province | undefined => {
+  const trimmed = value.trim();
+  if (/^\d{1,2}$/.test(trimmed)) return PROVINCES[trimmed.padStart(2, '0')];
+  return PROVINCE_LOOKUP.get(normalizePlaceName(trimmed));
+};
+
+// Region used for national totals and sources without a location
+export const NATIONAL_REGION = 'España';
+
+// Region for sources outside every community: offshore or international
+export const OUTSIDE_REGION = 'Exterior';
+
+/** Places emissions can be aggregated into, from coarsest to finest */
+export type GeographyLevel = 'region' | 'province' | 'municipality';
+export const GEOGRAPHY_LEVELS: GeographyLevel[] = ['region', 'province', 'municipality'];
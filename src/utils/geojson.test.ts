@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { readGeoJSON } from './geojson';
+
+const collection = (...features: unknown[]) =>
+  JSON.stringify({ type: 'FeatureCollection', features });
+
+const point = (lng: number, lat: number, properties: Record<string, unknown>) => ({
+  type: 'Feature',
+  geometry: { type: 'Point', coordinates: [lng, lat] },
+  properties,
+});
+
+describe('readGeoJSON', () => {
+  it('reads one row per feature with the geometry as lat and lng', () => {
+    const table = readGeoJSON(
+      collection(point(-3.7, 40.4, { region: 'Madrid', emissions: 5 }), point(-8.5, 42.9, {}))
+    );
+    expect(table.headers).toEqual(['lat', 'lng', 'region', 'emissions']);
+    expect(table.rows).toEqual([
+      ['40.4', '-3.7', 'Madrid', '5'],
+      ['42.9', '-8.5', '', ''],
+    ]);
+    expect(table.firstLine).toBe(1);
+  });
+
+  it('renames properties that clash with the geometry columns', () => {
+    const table = readGeoJSON(collection(point(-3.7, 40.4, { LAT: 1, lng: 2, year: 2022 })));
+    expect(table.headers).toEqual(['lat', 'lng', 'properties.LAT', 'properties.lng', 'year']);
+    expect(new Set(table.headers).size).toBe(table.headers.length);
+  });
+
+  it('refuses text that is not a GeoJSON feature collection', () => {
+    expect(() => readGeoJSON('{')).toThrow('not valid JSON');
+    expect(() => readGeoJSON(collection())).toThrow('at least one feature');
+  });
+
+  it('reads features with more properties than a CSV may have columns', () => {
+    const props = Object.fromEntries(Array.from({ length: 30 }, (_, i) => [`p${i}`, i]));
+    expect(readGeoJSON(collection(point(-3.7, 40.4, props))).headers).toHaveLength(32);
+
+    const tooMany = Object.fromEntries(Array.from({ length: 201 }, (_, i) => [`p${i}`, i]));
+    expect(() => readGeoJSON(collection(point(-3.7, 40.4, tooMany)))).toThrow(
+      'GeoJSON has too many properties'
+    );
+  });
+});
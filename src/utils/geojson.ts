@@ -0,0 +1,74 @@
+import { sanitizeHeaders, type SourceTable } from './ingest';
+import { geometryCentroid, type Feature, type FeatureCollection } from './geo';
+import { MAX_CSV_ROWS, MAX_GEOJSON_PROPERTIES } from './security';
+
+// Columns filled from the geometry. They come first so the alias guessing
+// prefers them over any lat/lng properties.
+const GEOMETRY_COLUMNS = ['lat', 'lng'];
+
+// Properties named like a geometry column keep a prefixed header instead
+const propertyHeader = (key: string): string =>
+  GEOMETRY_COLUMNS.includes(key.toLowerCase()) ? `properties.${key}` : key;
+
+const propertyToString = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * Flatten a GeoJSON FeatureCollection (or a single Feature) into a table:
+ * one row per feature, with the geometry's representative point as lat/lng
+ * and one column per property. Diagnostics refer to 1-based feature numbers.
+ * Properties named lat or lng are renamed to "properties.lat" and
+ * "properties.lng" so that headers stay unique.
+ */
+export const readGeoJSON = (text: string): SourceTable => {
+  let parsed: FeatureCollection | Feature;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  const features =
+    parsed?.type === 'FeatureCollection'
+      ? parsed.features
+      : parsed?.type === 'Feature'
+        ? [parsed]
+        : null;
+  if (!Array.isArray(features) || features.length === 0) {
+    throw new Error('GeoJSON must be a FeatureCollection with at least one feature');
+  }
+  if (features.length > MAX_CSV_ROWS) {
+    throw new Error(`GeoJSON has too many features. Maximum allowed: ${MAX_CSV_ROWS}`);
+  }
+
+  const keys: string[] = [];
+  const seen = new Set<string>();
+  for (const feature of features) {
+    for (const key of Object.keys(feature?.properties ?? {})) {
+      if (!seen.has(key)) {
+        seen.add(key);
+        keys.push(key);
+      }
+    }
+  }
+
+  if (keys.length > MAX_GEOJSON_PROPERTIES) {
+    throw new Error(`GeoJSON has too many properties. Maximum allowed: ${MAX_GEOJSON_PROPERTIES}`);
+  }
+
+  const headers = sanitizeHeaders([...GEOMETRY_COLUMNS, ...keys.map(propertyHeader)]);
+  const rows = features.map(feature => {
+    const point = geometryCentroid(feature?.geometry ?? null);
+    const props = feature?.properties ?? {};
+    return [
+      point ? String(point[1]) : '',
+      point ? String(point[0]) : '',
+      ...keys.map(key => propertyToString(props[key])),
+    ];
+  });
+
+  return { headers, rows, firstLine: 1 };
+};
@@ -1,3 +1,5 @@
+import type { Normalization } from './normalization';
+
 
 export const humanizeLabel = (label: string): string => {
   if (!label) return label;
@@ -22,17 +24,24 @@ export const formatBillions = (
     maximumFractionDigits: fractionDigits,
   });
 
+/**
+ * A value in tonnes, millions or billions of tonnes, whichever reads best,
+ * with the key of its unit; normalized values get the key of the unit per
+ * inhabitant, million euros or km².
+ */
 export const humanizeValue = (
   value: number,
-  fractionDigits = 2
+  fractionDigits = 2,
+  normalization: Normalization = 'none'
 ): { value: string; unitKey: string } => {
+  const per = normalization === 'none' ? '' : `.${normalization}`;
   const abs = Math.abs(value);
   if (abs >= 1_000_000_000) {
     return {
       value: (value / 1_000_000_000).toLocaleString(undefined, {
         maximumFractionDigits: fractionDigits,
       }),
-      unitKey: 'map.unitBillions',
+      unitKey: `map.unitBillions${per}`,
     };
   }
   if (abs >= 1_000_000) {
@@ -40,13 +49,21 @@ export const humanizeValue = (
       value: (value / 1_000_000).toLocaleString(undefined, {
         maximumFractionDigits: fractionDigits,
       }),
-      unitKey: 'map.unitMillions',
+      unitKey: `map.unitMillions${per}`,
     };
   }
   return {
     value: value.toLocaleString(undefined, {
       maximumFractionDigits: fractionDigits,
     }),
-    unitKey: 'map.unitTonnes',
+    unitKey: `map.unitTonnes${per}`,
   };
 };
+
+/**
+ * A signed percentage, e.g. "+12.5 %".
+ */
+export const formatPercent = (value: number, fractionDigits = 1): string =>
+  `${value > 0 ? '+' : ''}${value.toLocaleString(undefined, {
+    maximumFractionDigits: fractionDigits,
+  })} %`;
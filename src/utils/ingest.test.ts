@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { createIngestor, isColumnRole, parseCSV, parseNumber, readCSVTable } from './ingest';
+
+const emissionsOf = (rows: string[], decimalSeparator?: '.' | ',') => {
+  const ingestor = createIngestor(['region', 'year', 'emissions'], undefined, decimalSeparator);
+  rows.forEach((value, i) => ingestor.push(['Madrid', '2022', value], i + 2));
+  return ingestor.finish().data.map(r => r.emissions);
+};
+
+describe('parseNumber', () => {
+  it('reads either decimal separator when the value shows it', () => {
+    expect(parseNumber('1.234,5')).toBe(1234.5);
+    expect(parseNumber('1,234.5')).toBe(1234.5);
+    expect(parseNumber('12,5')).toBe(12.5);
+    expect(parseNumber('1 234')).toBe(1234);
+  });
+
+  it('is undefined for blank and non-numeric values', () => {
+    expect(parseNumber('  ')).toBeUndefined();
+    expect(parseNumber('n/a')).toBeUndefined();
+  });
+});
+
+describe('readCSVTable', () => {
+  it('keeps file lines when the text starts with blank lines', () => {
+    const table = readCSVTable('\n\nregion,year,emissions\nMadrid,2022,1\n\n');
+    expect(table.firstLine).toBe(4);
+    expect(table.rows).toEqual([['Madrid', '2022', '1']]);
+  });
+
+  it('needs a header and a data row', () => {
+    expect(() => readCSVTable('region,year,emissions\n')).toThrow();
+  });
+});
+
+describe('parseCSV', () => {
+  it('reports rejected rows by their file line', () => {
+    const { diagnostics } = parseCSV('\nregion,year,emissions\nMadrid,2022,1\n,2022,1\n');
+    expect(diagnostics.accepted).toBe(1);
+    expect(diagnostics.rejected.map(r => [r.line, r.reason])).toEqual([[4, 'missingRegion']]);
+  });
+
+  it('rejects years that are not whole numbers or out of range', () => {
+    const { diagnostics } = parseCSV(
+      'region,year,emissions\nMadrid,2022.5,1\nMadrid,1800,1\nMadrid,2022,1'
+    );
+    expect(diagnostics.accepted).toBe(1);
+    expect(diagnostics.rejected.map(r => r.reason)).toEqual(['invalidYear', 'invalidYear']);
+  });
+
+  it('keeps other numeric columns as metrics and lists the rest', () => {
+    const { data, diagnostics } = parseCSV('region,year,emissions,co2,notes\nMadrid,2022,1,2,x');
+    expect(data[0].co2).toBe(2);
+    expect(diagnostics.unknownColumns).toEqual(['notes']);
+  });
+});
+
+describe('decimal separators', () => {
+  it('reads "1.234" as thousands in a column with decimal commas', () => {
+    expect(emissionsOf(['1.234', '0,5', '2.500'])).toEqual([1234, 0.5, 2500]);
+  });
+
+  it('reads "1.234" as decimals in a column with decimal points', () => {
+    expect(emissionsOf(['1.234', '0.5', '1,234.5'])).toEqual([1.234, 0.5, 1234.5]);
+  });
+
+  it('reads three-decimal values as decimals when nothing shows otherwise', () => {
+    expect(emissionsOf(['1.250', '2.500', '3.125'])).toEqual([1.25, 2.5, 3.125]);
+    expect(emissionsOf(['1.234', '12'])).toEqual([1.234, 12]);
+  });
+
+  it('follows the separator another column of the file shows', () => {
+    const ingestor = createIngestor(['region', 'year', 'emissions', 'intensity']);
+    ingestor.push(['Madrid', '2022', '1.250', '0,125'], 2);
+    ingestor.push(['Madrid', '2023', '2.500', '0,25'], 3);
+    expect(ingestor.finish().data.map(r => [r.emissions, r.intensity])).toEqual([
+      [1250, 0.125],
+      [2500, 0.25],
+    ]);
+  });
+
+  it('reads English files the same way in every column', () => {
+    const ingestor = createIngestor(['region', 'year', 'emissions', 'intensity']);
+    ingestor.push(['Madrid', '2022', '1.250', '0.125'], 2);
+    ingestor.push(['Madrid', '2023', '3.125', '0.5'], 3);
+    expect(ingestor.finish().data.map(r => [r.emissions, r.intensity])).toEqual([
+      [1.25, 0.125],
+      [3.125, 0.5],
+    ]);
+  });
+
+  it('follows a fixed separator', () => {
+    expect(emissionsOf(['1.234', '56.789'], '.')).toEqual([1.234, 56.789]);
+  });
+});
+
+describe('isColumnRole', () => {
+  it('accepts fields, metric and ignore only', () => {
+    expect(['region', 'lat', 'metric', 'ignore'].every(isColumnRole)).toBe(true);
+    expect([null, 'Region', 'population', 3].some(isColumnRole)).toBe(false);
+  });
+});
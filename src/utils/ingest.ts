@@ -0,0 +1,470 @@
+import Papa from 'papaparse';
+import type { CO2Data } from '@/components/DataUpload';
+import {
+  MAX_CSV_ROWS,
+  MAX_CSV_COLUMNS,
+  sanitizeNumber,
+  sanitizeString,
+  validateCoordinates,
+} from './security';
+import { findProvince, provinceOfMunicipality } from './geography';
+
+export type FieldRole =
+  | 'region'
+  | 'province'
+  | 'municipality'
+  | 'municipalityCode'
+  | 'year'
+  | 'sector'
+  | 'sectorCategory'
+  | 'emissions'
+  | 'lat'
+  | 'lng';
+
+/**
+ * What a source column is used for: a canonical field, an extra numeric
+ * metric, or nothing at all.
+ */
+export type ColumnRole = FieldRole | 'metric' | 'ignore';
+
+/** One role per header, aligned by column index */
+export type ColumnMapping = ColumnRole[];
+
+export const FIELD_ROLES: FieldRole[] = [
+  'region',
+  'province',
+  'municipality',
+  'municipalityCode',
+  'year',
+  'sector',
+  'sectorCategory',
+  'emissions',
+  'lat',
+  'lng',
+];
+
+/**
+ * Whether a value, e.g. read back from storage, is a column role.
+ */
+export const isColumnRole = (value: unknown): value is ColumnRole =>
+  value === 'metric' || value === 'ignore' || FIELD_ROLES.includes(value as FieldRole);
+
+/** Fields a mapping must assign before rows can be ingested */
+export const REQUIRED_FIELDS: FieldRole[] = ['region', 'year', 'emissions'];
+
+/**
+ * Header aliases for each canonical field, compared case-insensitively.
+ */
+export const FIELD_ALIASES: Record<FieldRole, string[]> = {
+  region: ['region', 'autonomous_community', 'comunidad_autonoma', 'ccaa'],
+  province: ['province', 'provincia', 'cod_prov', 'cpro'],
+  municipality: ['municipality', 'municipio', 'nombre_municipio'],
+  municipalityCode: ['municipality_code', 'cod_municipio', 'cod_ine', 'codigo_ine', 'cmun'],
+  year: ['year', 'año'],
+  sector: ['sector', 'industry', 'industria'],
+  sectorCategory: ['sector_category', 'category', 'categoria', 'categoría'],
+  emissions: ['emissions', 'emisiones', 'co2'],
+  lat: ['lat'],
+  lng: ['lng'],
+};
+
+export const YEAR_MIN = 1900;
+export const YEAR_MAX = 2100;
+
+export type RejectReason =
+  | 'columnCount'
+  | 'missingRegion'
+  | 'invalidYear'
+  | 'invalidEmissions';
+
+export interface RejectedRow {
+  /** 1-based line in the source file, header included */
+  line: number;
+  reason: RejectReason;
+  values: string[];
+}
+
+export interface IngestDiagnostics {
+  headers: string[];
+  accepted: number;
+  rejected: RejectedRow[];
+  /** Columns that matched no field and never held a numeric value */
+  unknownColumns: string[];
+}
+
+export interface IngestResult {
+  data: CO2Data[];
+  diagnostics: IngestDiagnostics;
+}
+
+export interface CSVTable {
+  headers: string[];
+  rows: string[][];
+}
+
+/** A table read fully into memory, e.g. from a spreadsheet */
+export interface SourceTable extends CSVTable {
+  /** Source line (or sheet row, or feature number) of the first data row */
+  firstLine: number;
+}
+
+/**
+ * Normalize thousands and decimal separators so that both "1.234,5"
+ * (Spanish) and "1,234.5" (English) read as 1234.5. A single comma with no
+ * dot is taken as a decimal comma.
+ */
+const normalizeSeparators = (value: string): string => {
+  const compact = value.replace(/[\s\u00a0\u202f]/g, '');
+  const lastComma = compact.lastIndexOf(',');
+  const lastDot = compact.lastIndexOf('.');
+  if (lastComma === -1) {
+    return compact.indexOf('.') !== lastDot ? compact.replace(/\./g, '') : compact;
+  }
+  if (lastDot > lastComma || compact.indexOf(',') !== lastComma) {
+    return compact.replace(/,/g, '');
+  }
+  return compact.replace(/\./g, '').replace(',', '.');
+};
+
+/** Decimal separator a numeric column is read with */
+export type DecimalSeparator = '.' | ',';
+
+// A single separator followed by three digits, e.g. "1.234": thousands or
+// decimals depending on the rest of the column or file
+const AMBIGUOUS_GROUP = /^[-+]?[1-9]\d{0,2}[.,]\d{3}$/;
+
+const compactNumber = (value: string): string => value.replace(/[\s\u00a0\u202f]/g, '');
+
+/**
+ * The decimal separator a value shows unambiguously: the last of two
+ * different separators, the other one when a separator repeats, or a single
+ * separator not followed by exactly three digits.
+ */
+const decimalSeparatorOf = (value: string): DecimalSeparator | undefined => {
+  const compact = compactNumber(value);
+  const commas = compact.split(',').length - 1;
+  const dots = compact.split('.').length - 1;
+  if (commas > 0 && dots > 0) {
+    return compact.lastIndexOf(',') > compact.lastIndexOf('.') ? ',' : '.';
+  }
+  if (commas + dots === 0 || AMBIGUOUS_GROUP.test(compact)) return undefined;
+  if (dots > 1) return ',';
+  if (commas > 1) return '.';
+  return dots === 1 ? '.' : ',';
+};
+
+const parseWithSeparator = (value: string, decimal: DecimalSeparator): number | undefined => {
+  const thousands = decimal === '.' ? ',' : '.';
+  const num = Number(compactNumber(value).split(thousands).join('').replace(decimal, '.'));
+  return Number.isFinite(num) ? sanitizeNumber(num) : undefined;
+};
+
+/**
+ * Parse a raw value into a number, or undefined when blank or not numeric.
+ */
+export const parseNumber = (value: string | undefined): number | undefined => {
+  if (value === undefined) return undefined;
+  const trimmed = value.trim();
+  if (trimmed === '') return undefined;
+  let num = Number(trimmed);
+  if (!Number.isFinite(num)) num = Number(normalizeSeparators(trimmed));
+  return Number.isFinite(num) ? sanitizeNumber(num) : undefined;
+};
+
+/**
+ * Guess a mapping from the header aliases. Each field goes to the first
+ * matching header; everything else is kept as a candidate extra metric.
+ */
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const lower = headers.map(h => h.toLowerCase());
+  const mapping: ColumnMapping = headers.map(() => 'metric');
+  FIELD_ROLES.forEach(field => {
+    const idx = lower.findIndex(
+      (h, i) => mapping[i] === 'metric' && FIELD_ALIASES[field].includes(h)
+    );
+    if (idx !== -1) mapping[idx] = field;
+  });
+  return mapping;
+};
+
+// Fields the region can be derived from
+const REGION_SOURCES: FieldRole[] = ['province', 'municipalityCode'];
+
+/** INE municipality code, with or without the leading zero */
+const MUNICIPALITY_CODE = /^\d{4,5}$/;
+
+/**
+ * Required fields the mapping leaves unassigned. A province or municipality
+ * code column stands in for the region, which is derived from it.
+ */
+export const missingFields = (mapping: ColumnMapping): FieldRole[] =>
+  REQUIRED_FIELDS.filter(
+    field =>
+      !mapping.includes(field) &&
+      !(field === 'region' && REGION_SOURCES.some(source => mapping.includes(source)))
+  );
+
+const resolveFields = (mapping: ColumnMapping): Partial<Record<FieldRole, number>> => {
+  const resolved: Partial<Record<FieldRole, number>> = {};
+  mapping.forEach((role, idx) => {
+    if (role !== 'metric' && role !== 'ignore' && resolved[role] === undefined) {
+      resolved[role] = idx;
+    }
+  });
+  return resolved;
+};
+
+/** Whether every cell of a row is empty or whitespace */
+export const isBlankRow = (row: string[]): boolean => row.every(v => v.trim() === '');
+
+/**
+ * Sanitize a header row.
+ */
+export const sanitizeHeaders = (row: string[]): string[] =>
+  row.map(h => sanitizeString(h.replace(/"/g, '')));
+
+/**
+ * Sanitize a header row and enforce the column limit.
+ */
+export const readHeaders = (row: string[]): string[] => {
+  if (row.length > MAX_CSV_COLUMNS) {
+    throw new Error(`CSV file has too many columns. Maximum allowed: ${MAX_CSV_COLUMNS}`);
+  }
+  return sanitizeHeaders(row);
+};
+
+/**
+ * Split CSV text into sanitized headers and raw rows. Quoted fields are
+ * handled by Papa Parse; blank lines are kept so that row indexes map back
+ * to file lines, and blank lines before the header are counted into
+ * `firstLine`.
+ */
+export const readCSVTable = (csvText: string): SourceTable => {
+  const { data } = Papa.parse<string[]>(csvText.replace(/[\r\n]+$/, ''), {
+    header: false,
+    skipEmptyLines: false,
+  });
+
+  const headerIndex = data.findIndex(row => !isBlankRow(row));
+  const rows = headerIndex === -1 ? [] : data.slice(headerIndex + 1);
+  if (rows.length === 0) {
+    throw new Error('CSV file must have at least a header and one data row');
+  }
+  if (rows.length > MAX_CSV_ROWS) {
+    throw new Error(`CSV file has too many rows. Maximum allowed: ${MAX_CSV_ROWS}`);
+  }
+
+  return { headers: readHeaders(data[headerIndex]), rows, firstLine: headerIndex + 2 };
+};
+
+/** Data rows shown when previewing a file before mapping its columns */
+export const PREVIEW_ROWS = 5;
+
+// Bytes read from the start of a file to preview its first rows
+const PREVIEW_BYTES = 64 * 1024;
+
+/**
+ * Read the headers and first rows of a CSV file without loading all of it.
+ */
+export const readCSVPreview = async (file: Blob, rowCount: number): Promise<CSVTable> => {
+  const text = await file.slice(0, PREVIEW_BYTES).text();
+  const { data } = Papa.parse<string[]>(text, {
+    header: false,
+    skipEmptyLines: true,
+    preview: rowCount + 1,
+  });
+
+  if (data.length < 2) {
+    throw new Error('CSV file must have at least a header and one data row');
+  }
+
+  return { headers: readHeaders(data[0]), rows: data.slice(1) };
+};
+
+export interface Ingestor {
+  push: (values: string[], line: number) => void;
+  finish: () => IngestResult;
+}
+
+/**
+ * Create a stateful ingestor for a table with the given headers. Rows are
+ * pushed one at a time so callers can process large inputs in batches.
+ * Without an explicit mapping the columns are resolved from the aliases.
+ * Measures are read with one decimal separator per column, so "1.234" is
+ * settled by the column's other values when `finish` is called, else by the
+ * file's, else as a decimal point; `decimalSeparator` fixes it instead.
+ */
+export const createIngestor = (
+  headers: string[],
+  mapping: ColumnMapping = guessMapping(headers),
+  decimalSeparator?: DecimalSeparator
+): Ingestor => {
+  const fields = resolveFields(mapping);
+  const extraColumns = headers
+    .map((header, idx) => ({ header, idx }))
+    .filter(({ idx }) => mapping[idx] === 'metric');
+  const numericColumns = new Set<number>();
+  // Decimal separator per measure column, set by its first unambiguous value,
+  // and the first one any column showed
+  const separators = new Map<number, DecimalSeparator>();
+  let fileSeparator: DecimalSeparator | undefined;
+  // Values like "1.234" read before their column's separator was known
+  const pending: { record: CO2Data; key: string; idx: number; raw: string }[] = [];
+
+  const data: CO2Data[] = [];
+  const rejected: RejectedRow[] = [];
+
+  const cell = (values: string[], field: FieldRole): string | undefined => {
+    const idx = fields[field];
+    return idx === undefined ? undefined : values[idx]?.trim();
+  };
+
+  // Read a measure by its column's separator, or defer it until one is known
+  const settleSeparator = (record: CO2Data, key: string, idx: number, raw: string) => {
+    const compact = compactNumber(raw);
+    if (!AMBIGUOUS_GROUP.test(compact)) {
+      const separator = decimalSeparatorOf(compact);
+      if (separator && !separators.has(idx)) separators.set(idx, separator);
+      fileSeparator ??= separator;
+      return;
+    }
+    const separator = decimalSeparator ?? separators.get(idx);
+    if (separator) record[key] = parseWithSeparator(compact, separator);
+    else pending.push({ record, key, idx, raw: compact });
+  };
+
+  const push = (rawValues: string[], line: number) => {
+    if (isBlankRow(rawValues)) return;
+    const values = rawValues.map(v => v.trim());
+    const reject = (reason: RejectReason) => {
+      rejected.push({ line, reason, values });
+    };
+
+    if (values.length !== headers.length) return reject('columnCount');
+
+    // A municipality column holding codes is read as the code column
+    const municipalityRaw = sanitizeString(cell(values, 'municipality') ?? '');
+    const codeRaw =
+      cell(values, 'municipalityCode') ||
+      (MUNICIPALITY_CODE.test(municipalityRaw) ? municipalityRaw : '');
+    const municipalityCode = MUNICIPALITY_CODE.test(codeRaw) ? codeRaw.padStart(5, '0') : undefined;
+    const municipality = municipalityRaw !== codeRaw ? municipalityRaw || undefined : undefined;
+
+    // Province names or INE codes; unknown values are left out
+    const province =
+      findProvince(cell(values, 'province') ?? '') ??
+      (municipalityCode ? provinceOfMunicipality(municipalityCode) : undefined);
+    const region = sanitizeString(cell(values, 'region') ?? '') || province?.region;
+    if (!region) return reject('missingRegion');
+
+    const year = parseNumber(cell(values, 'year'));
+    if (year === undefined || !Number.isInteger(year) || year < YEAR_MIN || year > YEAR_MAX) {
+      return reject('invalidYear');
+    }
+
+    const emissions = parseNumber(cell(values, 'emissions'));
+    if (emissions === undefined) return reject('invalidEmissions');
+
+    // A combined "category:sector" value is split unless the category has
+    // its own column
+    const sectorRaw = sanitizeString(cell(values, 'sector') ?? '');
+    const categoryRaw = sanitizeString(cell(values, 'sectorCategory') ?? '');
+    const [head, tail] = sectorRaw.split(':');
+    const sectorCategory = categoryRaw || head;
+    const sector = (categoryRaw ? sectorRaw : tail || head) || sectorCategory;
+
+    const lat = parseNumber(cell(values, 'lat'));
+    const lng = parseNumber(cell(values, 'lng'));
+    const coordinates =
+      lat !== undefined && lng !== undefined && validateCoordinates(lat, lng)
+        ? ([lat, lng] as [number, number])
+        : undefined;
+
+    const record: CO2Data = {
+      region,
+      province: province?.name,
+      municipality,
+      municipalityCode,
+      year,
+      sector,
+      sectorCategory,
+      sectorValue: sector,
+      emissions,
+      coordinates,
+    };
+    settleSeparator(record, 'emissions', fields.emissions, values[fields.emissions]);
+
+    // Keep remaining numeric columns as extra metrics
+    for (const { header, idx } of extraColumns) {
+      const num = parseNumber(values[idx]);
+      if (num === undefined || header in record) continue;
+      record[header] = num;
+      settleSeparator(record, header, idx, values[idx]);
+      numericColumns.add(idx);
+    }
+
+    data.push(record);
+  };
+
+  // Deferred values follow their column's separator, else the file's; with
+  // neither they keep the reading of parseNumber, a decimal point for "1.234"
+  const settlePending = () => {
+    pending.forEach(({ record, key, idx, raw }) => {
+      const separator = separators.get(idx) ?? fileSeparator;
+      if (separator) record[key] = parseWithSeparator(raw, separator);
+    });
+    pending.length = 0;
+  };
+
+  const finish = (): IngestResult => {
+    settlePending();
+    return {
+      data,
+      diagnostics: {
+        headers,
+        accepted: data.length,
+        rejected,
+        unknownColumns: extraColumns
+          .filter(({ idx }) => !numericColumns.has(idx))
+          .map(({ header }) => header),
+      },
+    };
+  };
+
+  return { push, finish };
+};
+
+/**
+ * Ingest a whole table at once. `firstLine` is the source line of the first
+ * data row, used in the diagnostics.
+ */
+export const ingestTable = (
+  { headers, rows }: CSVTable,
+  mapping?: ColumnMapping,
+  firstLine = 2
+): IngestResult => {
+  if (rows.length > MAX_CSV_ROWS) {
+    throw new Error(`Table has too many rows. Maximum allowed: ${MAX_CSV_ROWS}`);
+  }
+  const ingestor = createIngestor(headers, mapping);
+  rows.forEach((values, i) => ingestor.push(values, firstLine + i));
+  return ingestor.finish();
+};
+
+/**
+ * Parse CSV text into validated CO2Data records and diagnostics.
+ */
+export const parseCSV = (csvText: string, mapping?: ColumnMapping): IngestResult => {
+  const table = readCSVTable(csvText);
+  return ingestTable(table, mapping, table.firstLine);
+};
+
+/**
+ * Serialize rejected rows back to CSV with their line number and reason, so
+ * they can be fixed at source and uploaded again.
+ */
+export const rejectedRowsToCSV = ({ headers, rejected }: IngestDiagnostics): string =>
+  Papa.unparse({
+    fields: ['line', 'reason', ...headers],
+    data: rejected.map(row => [row.line, row.reason, ...row.values]),
+  });
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import type { CO2Data } from '@/components/DataUpload';
+import { denominator, isMissingReference, normalizeRecords } from './normalization';
+import { REGION_REFERENCE } from './reference';
+
+const record = (region: string, year: number, emissions: number): CO2Data => ({
+  region,
+  year,
+  sector: 'power',
+  emissions,
+});
+
+describe('denominator', () => {
+  it('reads a community figure for the year', () => {
+    expect(denominator('Madrid', 2022, 'perCapita')).toBe(REGION_REFERENCE.Madrid.population[2022]);
+    expect(denominator('Madrid', 2030, 'perArea')).toBe(REGION_REFERENCE.Madrid.area);
+  });
+
+  it('sums every community for Spain', () => {
+    const total = Object.values(REGION_REFERENCE).reduce((sum, r) => sum + r.population[2023], 0);
+    expect(denominator('España', 2023, 'perCapita')).toBe(total);
+  });
+
+  it('is undefined for unknown places and years without figures', () => {
+    expect(denominator('Exterior', 2022, 'perCapita')).toBeUndefined();
+    expect(denominator('Madrid', 2030, 'perGdp')).toBeUndefined();
+    expect(denominator('España', 2030, 'perGdp')).toBeUndefined();
+  });
+});
+
+describe('normalizeRecords', () => {
+  const records = [record('Madrid', 2022, 1000), record('Madrid', 2030, 1000)];
+
+  it('returns the records as they are without a normalization', () => {
+    expect(normalizeRecords(records, ['emissions'], 'none', 'region')).toBe(records);
+  });
+
+  it('divides by the denominator of the record year', () => {
+    const [normalized] = normalizeRecords(records, ['emissions'], 'perArea', 'region');
+    expect(normalized.emissions).toBeCloseTo(1000 / REGION_REFERENCE.Madrid.area);
+    expect(records[0].emissions).toBe(1000);
+  });
+
+  it('flags records missing reference figures instead of zeroing them', () => {
+    const [, missing] = normalizeRecords(records, ['emissions'], 'perGdp', 'region');
+    expect(isMissingReference(missing.emissions)).toBe(true);
+  });
+
+  it('flags places finer than communities, but not Spain', () => {
+    const [madrid, spain] = normalizeRecords(
+      [record('Madrid', 2022, 10), record('España', 2022, 10)],
+      ['emissions'],
+      'perCapita',
+      'province'
+    );
+    expect(isMissingReference(madrid.emissions)).toBe(true);
+    expect(isMissingReference(spain.emissions)).toBe(false);
+  });
+});
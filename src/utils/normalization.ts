@@ -0,0 +1,82 @@
+import type { CO2Data } from '@/components/DataUpload';
+import { NATIONAL_REGION, type GeographyLevel } from './geography';
+import { REGION_REFERENCE } from './reference';
+
+/** What metrics are divided by: nothing, inhabitants, GDP or surface area */
+export type Normalization = 'none' | 'perCapita' | 'perGdp' | 'perArea';
+
+export const NORMALIZATIONS: Normalization[] = ['none', 'perCapita', 'perGdp', 'perArea'];
+
+const communityDenominator = (
+  region: string,
+  year: number,
+  normalization: Normalization
+): number | undefined => {
+  const reference = REGION_REFERENCE[region];
+  if (!reference) return undefined;
+  switch (normalization) {
+    case 'perCapita':
+      return reference.population[year];
+    case 'perGdp':
+      return reference.gdp[year];
+    case 'perArea':
+      return reference.area;
+    default:
+      return 1;
+  }
+};
+
+/**
+ * What a community's metrics are divided by in a year, summed over every
+ * community for Spain. Undefined when the reference table lacks the place
+ * or the year.
+ */
+export const denominator = (
+  region: string,
+  year: number,
+  normalization: Normalization
+): number | undefined => {
+  if (normalization === 'none') return 1;
+  if (region !== NATIONAL_REGION) return communityDenominator(region, year, normalization);
+  let total = 0;
+  for (const community of Object.keys(REGION_REFERENCE)) {
+    const value = communityDenominator(community, year, normalization);
+    if (value === undefined) return undefined;
+    total += value;
+  }
+  return total;
+};
+
+/**
+ * Divide the metrics of each record by its community's denominator for its
+ * year. The reference figures are per community, so places drawn at a finer
+ * level, and records without a denominator, get NaN: sums keep it, and the
+ * place is flagged rather than drawn as zero.
+ */
+export const normalizeRecords = (
+  records: CO2Data[],
+  metrics: string[],
+  normalization: Normalization,
+  level: GeographyLevel
+): CO2Data[] => {
+  if (normalization === 'none') return records;
+  return records.map(item => {
+    const divisor =
+      level === 'region' || item.region === NATIONAL_REGION
+        ? denominator(item.region, item.year, normalization)
+        : undefined;
+    const copy = { ...item };
+    metrics.forEach(metric => {
+      const v = item[metric];
+      if (typeof v !== 'number') return;
+      copy[metric] = divisor ? v / divisor : NaN;
+    });
+    return copy;
+  });
+};
+
+/**
+ * Whether a value stands for a place missing its reference figures.
+ */
+export const isMissingReference = (value: unknown): boolean =>
+  typeof value === 'number' && Number.isNaN(value);
@@ -0,0 +1,150 @@
+/**
+ * Sequential ramps run from low to high values, diverging ramps from
+ * negative through a neutral middle to positive, and categorical palettes
+ * hold distinct colours.
+ */
+export type PaletteKind = 'sequential' | 'diverging' | 'categorical';
+
+export interface Palette {
+  id: string;
+  kind: PaletteKind;
+  /** Colour stops, low to high */
+  colors: string[];
+  /** Distinguishable with the common forms of colour blindness */
+  colorBlindSafe: boolean;
+}
+
+export const PALETTES: Palette[] = [
+  {
+    id: 'traffic',
+    kind: 'sequential',
+    colors: ['#16a34a', '#f59e0b', '#dc2626'],
+    colorBlindSafe: false,
+  },
+  {
+    id: 'viridis',
+    kind: 'sequential',
+    colors: ['#440154', '#3b528b', '#21918c', '#5ec962', '#fde725'],
+    colorBlindSafe: true,
+  },
+  {
+    id: 'cividis',
+    kind: 'sequential',
+    colors: ['#00224e', '#3b496c', '#7c7b78', '#bcaf6f', '#fee838'],
+    colorBlindSafe: true,
+  },
+  {
+    id: 'ylOrRd',
+    kind: 'sequential',
+    colors: ['#ffffb2', '#fecc5c', '#fd8d3c', '#f03b20', '#bd0026'],
+    colorBlindSafe: true,
+  },
+  {
+    id: 'blues',
+    kind: 'sequential',
+    colors: ['#eff3ff', '#bdd7e7', '#6baed6', '#3182bd', '#08519c'],
+    colorBlindSafe: true,
+  },
+  {
+    id: 'blueRed',
+    kind: 'diverging',
+    colors: ['#2166ac', '#67a9cf', '#d1e5f0', '#f7f7f7', '#fddbc7', '#ef8a62', '#b2182b'],
+    colorBlindSafe: true,
+  },
+  {
+    id: 'purpleOrange',
+    kind: 'diverging',
+    colors: ['#542788', '#998ec3', '#d8daeb', '#f7f7f7', '#fee0b6', '#f1a340', '#b35806'],
+    colorBlindSafe: true,
+  },
+  {
+    id: 'tealBrown',
+    kind: 'diverging',
+    colors: ['#01665e', '#5ab4ac', '#c7eae5', '#f5f5f5', '#f6e8c3', '#d8b365', '#8c510a'],
+    colorBlindSafe: true,
+  },
+  {
+    id: 'okabeIto',
+    kind: 'categorical',
+    colors: ['#e69f00', '#56b4e9', '#009e73', '#f0e442', '#0072b2', '#d55e00', '#cc79a7', '#000000'],
+    colorBlindSafe: true,
+  },
+  {
+    id: 'tableau',
+    kind: 'categorical',
+    colors: [
+      '#4e79a7', '#f28e2b', '#e15759', '#76b7b2', '#59a14f',
+      '#edc948', '#b07aa1', '#ff9da7', '#9c755f', '#bab0ac',
+    ],
+    colorBlindSafe: false,
+  },
+];
+
+export const PALETTE_KINDS: PaletteKind[] = ['sequential', 'diverging', 'categorical'];
+
+export const DEFAULT_PALETTE_ID = 'traffic';
+
+/** Used for signed values when the metric's palette is not diverging */
+export const DEFAULT_DIVERGING_PALETTE_ID = 'blueRed';
+
+/** Used for sector categories when the metric's palette is not categorical */
+export const DEFAULT_CATEGORICAL_PALETTE_ID = 'tableau';
+
+/** Fill of places without a value to classify */
+export const MISSING_COLOR = '#6b7280';
+
+export const findPalette = (id: string | undefined): Palette =>
+  PALETTES.find(p => p.id === id) ?? PALETTES.find(p => p.id === DEFAULT_PALETTE_ID)!;
+
+const hexToRgb = (hex: string): number[] =>
+  [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+
+/**
+ * Colour at a position from 0 to 1 along a ramp.
+ */
+export const interpolateColor = (stops: string[], position: number): string => {
+  const pos = Math.max(0, Math.min(1, position)) * (stops.length - 1);
+  const lower = Math.min(Math.floor(pos), stops.length - 2);
+  const frac = pos - lower;
+  const [from, to] = [hexToRgb(stops[lower]), hexToRgb(stops[lower + 1])];
+  return `#${from
+    .map((c, j) => Math.round(c + (to[j] - c) * frac).toString(16).padStart(2, '0'))
+    .join('')}`;
+};
+
+/**
+ * One colour per class: spread evenly along a ramp, or taken in turn from a
+ * categorical palette.
+ */
+export const paletteColors = (palette: Palette, classes: number): string[] =>
+  Array.from({ length: classes }, (_, i) =>
+    palette.kind === 'categorical'
+      ? palette.colors[i % palette.colors.length]
+      : interpolateColor(palette.colors, classes === 1 ? 1 : i / (classes - 1))
+  );
+
+/**
+ * One colour per class of signed values on a diverging ramp centred on
+ * zero: classes below zero spread over the low half and classes above it
+ * over the high half, each side darkening away from zero.
+ */
+export const divergingColors = (palette: Palette, breaks: number[]): string[] => {
+  const classes = breaks.length - 1;
+  const below = breaks.slice(1).filter(upper => upper <= 0).length;
+  const above = classes - below;
+  return Array.from({ length: classes }, (_, i) =>
+    interpolateColor(
+      palette.colors,
+      i < below ? (0.5 * i) / below : 0.5 + (0.5 * (i - below + 1)) / above
+    )
+  );
+};
+
+/**
+ * A colour per category, in the order given so colours stay put as filters
+ * change.
+ */
+export const categoryColors = (palette: Palette, categories: string[]): Record<string, string> =>
+  Object.fromEntries(
+    categories.map((category, i) => [category, palette.colors[i % palette.colors.length]])
+  );
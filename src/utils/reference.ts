@@ -0,0 +1,112 @@
+/**
+ * Reference figures per autonomous community used to normalize metrics:
+ * resident population on 1 January (INE, Padrón continuo), GDP at current
+ * market prices in millions of euros (INE, Contabilidad Regional de España)
+ * and surface area in km² (INE). Years INE had not published are left out,
+ * so values for them show as missing rather than as a guess.
+ */
+export interface RegionReference {
+  population: Record<number, number>;
+  /** Millions of euros */
+  gdp: Record<number, number>;
+  /** km² */
+  area: number;
+}
+
+export const REGION_REFERENCE: Record<string, RegionReference> = {
+  'Andalucía': {
+    population: { 2021: 8472407, 2022: 8500187, 2023: 8538376, 2024: 8631862 },
+    gdp: { 2021: 166383, 2022: 181440, 2023: 197183 },
+    area: 87599,
+  },
+  'Aragón': {
+    population: { 2021: 1326261, 2022: 1326315, 2023: 1341289, 2024: 1351591 },
+    gdp: { 2021: 40431, 2022: 43658, 2023: 47424 },
+    area: 47720,
+  },
+  'Asturias': {
+    population: { 2021: 1011792, 2022: 1004686, 2023: 1006060, 2024: 1009599 },
+    gdp: { 2021: 24263, 2022: 25999, 2023: 27976 },
+    area: 10604,
+  },
+  'Baleares': {
+    population: { 2021: 1173008, 2022: 1176627, 2023: 1209906, 2024: 1231768 },
+    gdp: { 2021: 30310, 2022: 36335, 2023: 40519 },
+    area: 4992,
+  },
+  'Canarias': {
+    population: { 2021: 2172944, 2022: 2177701, 2023: 2213016, 2024: 2238754 },
+    gdp: { 2021: 43027, 2022: 48703, 2023: 53633 },
+    area: 7447,
+  },
+  'Cantabria': {
+    population: { 2021: 584507, 2022: 585402, 2023: 588387, 2024: 590851 },
+    gdp: { 2021: 14284, 2022: 15330, 2023: 16523 },
+    area: 5321,
+  },
+  'Castilla y León': {
+    population: { 2021: 2383139, 2022: 2372640, 2023: 2383703, 2024: 2391682 },
+    gdp: { 2021: 59548, 2022: 64146, 2023: 69151 },
+    area: 94226,
+  },
+  'Castilla-La Mancha': {
+    population: { 2021: 2049562, 2022: 2058278, 2023: 2084086, 2024: 2104433 },
+    gdp: { 2021: 43896, 2022: 47316, 2023: 51180 },
+    area: 79461,
+  },
+  'Cataluña': {
+    population: { 2021: 7763362, 2022: 7792611, 2023: 7901963, 2024: 8012231 },
+    gdp: { 2021: 231256, 2022: 251376, 2023: 272546 },
+    area: 32091,
+  },
+  'Comunidad Valenciana': {
+    population: { 2021: 5058138, 2022: 5097967, 2023: 5216195, 2024: 5319285 },
+    gdp: { 2021: 117000, 2022: 128754, 2023: 140557 },
+    area: 23255,
+  },
+  'Extremadura': {
+    population: { 2021: 1059501, 2022: 1054776, 2023: 1054306, 2024: 1054681 },
+    gdp: { 2021: 21070, 2022: 22763, 2023: 24558 },
+    area: 41634,
+  },
+  'Galicia': {
+    population: { 2021: 2695645, 2022: 2690464, 2023: 2699424, 2024: 2705833 },
+    gdp: { 2021: 63414, 2022: 69096, 2023: 74584 },
+    area: 29575,
+  },
+  'Madrid': {
+    population: { 2021: 6751251, 2022: 6750336, 2023: 6871903, 2024: 7009268 },
+    gdp: { 2021: 237055, 2022: 257266, 2023: 279913 },
+    area: 8028,
+  },
+  'Murcia': {
+    population: { 2021: 1518486, 2022: 1531878, 2023: 1551692, 2024: 1568492 },
+    gdp: { 2021: 32827, 2022: 35587, 2023: 38476 },
+    area: 11314,
+  },
+  'Navarra': {
+    population: { 2021: 661537, 2022: 664117, 2023: 672155, 2024: 678333 },
+    gdp: { 2021: 21061, 2022: 22663, 2023: 24563 },
+    area: 10391,
+  },
+  'País Vasco': {
+    population: { 2021: 2213993, 2022: 2208174, 2023: 2216302, 2024: 2227581 },
+    gdp: { 2021: 74902, 2022: 80928, 2023: 87071 },
+    area: 7234,
+  },
+  'La Rioja': {
+    population: { 2021: 319796, 2022: 319892, 2023: 322282, 2024: 324184 },
+    gdp: { 2021: 8940, 2022: 9658, 2023: 10425 },
+    area: 5045,
+  },
+  'Ceuta': {
+    population: { 2021: 83517, 2022: 83052, 2023: 83179, 2024: 83052 },
+    gdp: { 2021: 1737, 2022: 1805, 2023: 1927 },
+    area: 19,
+  },
+  'Melilla': {
+    population: { 2021: 86487, 2022: 85170, 2023: 85159, 2024: 86261 },
+    gdp: { 2021: 1594, 2022: 1675, 2023: 1789 },
+    area: 12,
+  },
+};
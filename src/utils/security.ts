@@ -1,14 +1,23 @@
 
 import DOMPurify from 'dompurify';
 
-// File size limit: 10MB
-export const MAX_FILE_SIZE = 10 * 1024 * 1024;
+const envLimit = (value: string | undefined, fallback: number): number => {
+  const num = Number(value);
+  return value && Number.isFinite(num) && num > 0 ? num : fallback;
+};
+
+// File size limit: 500MB, overridable with VITE_MAX_FILE_SIZE_MB
+export const MAX_FILE_SIZE =
+  envLimit(import.meta.env.VITE_MAX_FILE_SIZE_MB, 500) * 1024 * 1024;
 
-// Row limit for CSV processing
-export const MAX_CSV_ROWS = 50000;
+// Row limit for CSV processing, overridable with VITE_MAX_CSV_ROWS
+export const MAX_CSV_ROWS = envLimit(import.meta.env.VITE_MAX_CSV_ROWS, 5_000_000);
 
-// Column limit for CSV files
-export const MAX_CSV_COLUMNS = 20;
+// Column limit for CSV files, overridable with VITE_MAX_CSV_COLUMNS
+export const MAX_CSV_COLUMNS = envLimit(import.meta.env.VITE_MAX_CSV_COLUMNS, 20);
+
+// Property limit for GeoJSON features, overridable with VITE_MAX_GEOJSON_PROPERTIES
+export const MAX_GEOJSON_PROPERTIES = envLimit(import.meta.env.VITE_MAX_GEOJSON_PROPERTIES, 200);
 
 // Coordinate validation bounds for Spain
 export const SPAIN_BOUNDS = {
@@ -20,6 +29,10 @@ export const SPAIN_BOUNDS = {
  * Sanitize HTML content to prevent XSS attacks
  */
 export const sanitizeHtml = (content: string): string => {
+  // DOMPurify needs a DOM; inside Web Workers fall back to stripping tags
+  if (typeof DOMPurify.sanitize !== 'function') {
+    return content.replace(/<[^>]*>?/g, '');
+  }
   return DOMPurify.sanitize(content, {
     ALLOWED_TAGS: [],
     ALLOWED_ATTR: []
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { utils, write } from 'xlsx';
+import { createIngestor } from './ingest';
+import { detectHeaderRow, readSheet, readWorkbook } from './spreadsheet';
+
+const workbookFile = (rows: unknown[][]): Blob => {
+  const workbook = utils.book_new();
+  utils.book_append_sheet(workbook, utils.aoa_to_sheet(rows), 'Datos');
+  return new Blob([write(workbook, { type: 'array', bookType: 'xlsx' })]);
+};
+
+const rows = [
+  ['Emisiones por comunidad'],
+  [],
+  ['region', 'year', 'emissions'],
+  ['Madrid', 2021, 1.5],
+  ['Madrid', 2022, 1234.25],
+  ['Galicia', 2022, 7],
+];
+
+describe('detectHeaderRow', () => {
+  it('skips titles above the table', () => {
+    expect(detectHeaderRow(rows as never)).toBe(2);
+  });
+});
+
+describe('readSheet', () => {
+  it('reads the table under the header with numbers as written by the sheet', async () => {
+    const workbook = await readWorkbook(workbookFile(rows));
+    const table = readSheet(workbook, 'Datos');
+    expect(table.headers).toEqual(['region', 'year', 'emissions']);
+    expect(table.rows[1]).toEqual(['Madrid', '2022', '1234.25']);
+    expect(table.firstLine).toBe(4);
+  });
+
+  it('reads only the first rows when asked', async () => {
+    const workbook = await readWorkbook(workbookFile(rows), 4);
+    expect(readSheet(workbook, 'Datos').rows).toEqual([['Madrid', '2021', '1.5']]);
+  });
+
+  it('keeps the separators of text cells for the ingestor to detect', async () => {
+    const workbook = await readWorkbook(workbookFile([
+      ['region', 'year', 'emissions'],
+      ['Madrid', 2021, '1.234,5'],
+      ['Madrid', 2022, '2.500'],
+    ]));
+    const { headers, rows: cells } = readSheet(workbook, 'Datos');
+    const ingestor = createIngestor(headers);
+    cells.forEach((row, i) => ingestor.push(row, i + 2));
+    expect(ingestor.finish().data.map(r => r.emissions)).toEqual([1234.5, 2500]);
+  });
+});
@@ -0,0 +1,126 @@
+import { read, utils, type WorkBook, type WorkSheet } from 'xlsx';
+import { readHeaders, type SourceTable } from './ingest';
+import { MAX_CSV_ROWS } from './security';
+
+// Rows scanned from the top of a sheet when looking for the header row
+const HEADER_SCAN_ROWS = 20;
+
+type Cell = string | number | boolean | Date | null;
+
+/** Rows read from the top of each sheet to preview it */
+export const PREVIEW_SHEET_ROWS = HEADER_SCAN_ROWS + 10;
+
+/**
+ * Read an Excel or OpenDocument workbook. Numeric cells keep their raw value,
+ * so display formats such as Spanish decimal commas do not matter. `rows`
+ * limits how many rows of each sheet are read, e.g. for a preview.
+ */
+export const readWorkbook = async (file: Blob, rows?: number): Promise<WorkBook> =>
+  read(await file.arrayBuffer(), { type: 'array', sheetRows: rows });
+
+/**
+ * Copy the value of each merged range's top-left cell into the rest of the
+ * range, so a header merged across several columns labels all of them.
+ */
+const fillMerges = (sheet: WorkSheet): Set<number> => {
+  const mergedRows = new Set<number>();
+  for (const range of sheet['!merges'] ?? []) {
+    const origin = sheet[utils.encode_cell(range.s)];
+    if (!origin) continue;
+    for (let r = range.s.r; r <= range.e.r; r++) {
+      if (range.e.c > range.s.c) mergedRows.add(r);
+      for (let c = range.s.c; c <= range.e.c; c++) {
+        if (r === range.s.r && c === range.s.c) continue;
+        sheet[utils.encode_cell({ r, c })] = { ...origin };
+      }
+    }
+  }
+  return mergedRows;
+};
+
+const isText = (cell: Cell): boolean =>
+  typeof cell === 'string' && cell.trim() !== '' && isNaN(Number(cell));
+
+const cellToString = (cell: Cell): string => {
+  if (cell === null || cell === undefined) return '';
+  if (cell instanceof Date) return cell.toISOString().slice(0, 10);
+  return String(cell).trim();
+};
+
+/**
+ * Index of the header row: the first row among the top ones that is mostly
+ * text and about as wide as the widest row. Titles and notes above a table
+ * are skipped this way.
+ */
+export const detectHeaderRow = (rows: Cell[][]): number => {
+  const scanned = rows.slice(0, HEADER_SCAN_ROWS);
+  const filled = scanned.map(row => row.filter(c => cellToString(c) !== '').length);
+  const widest = Math.max(0, ...filled);
+  const idx = scanned.findIndex((row, i) => {
+    const text = row.filter(isText).length;
+    return filled[i] >= Math.max(2, widest * 0.6) && text >= filled[i] * 0.6;
+  });
+  return idx === -1 ? 0 : idx;
+};
+
+const tooManyRows = () =>
+  new Error(`Spreadsheet has too many rows. Maximum allowed: ${MAX_CSV_ROWS}`);
+
+/**
+ * Turn a sheet into a table of strings ready for ingestion, enforcing the
+ * row limit.
+ */
+export const readSheet = (workbook: WorkBook, sheetName: string): SourceTable => {
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet || !sheet['!ref']) {
+    throw new Error(`Sheet "${sheetName}" is empty`);
+  }
+
+  // Checked on the sheet's range before any row is copied out of it
+  const range = utils.decode_range(sheet['!ref']);
+  if (range.e.r - range.s.r > MAX_CSV_ROWS + HEADER_SCAN_ROWS) throw tooManyRows();
+
+  const mergedRows = fillMerges(sheet);
+  const origin = range.s.r;
+  const rows = utils.sheet_to_json<Cell[]>(sheet, {
+    header: 1,
+    raw: true,
+    defval: '',
+    blankrows: true,
+  });
+
+  if (rows.length === 0) {
+    throw new Error(`Sheet "${sheetName}" is empty`);
+  }
+
+  const headerIdx = detectHeaderRow(rows);
+  const headerRow = rows[headerIdx].map(cellToString);
+
+  // A merged row right above the header groups its columns, e.g.
+  // "Emisiones" over "CO2" and "CH4"
+  const groupRow =
+    headerIdx > 0 && mergedRows.has(origin + headerIdx - 1)
+      ? rows[headerIdx - 1].map(cellToString)
+      : null;
+  const labels = headerRow.map((header, i) => {
+    const group = groupRow?.[i];
+    return group && group !== header ? `${group} ${header}`.trim() : header;
+  });
+
+  let width = labels.length;
+  while (width > 0 && labels[width - 1] === '') width--;
+  const headers = readHeaders(labels.slice(0, width));
+
+  const dataRows = rows.slice(headerIdx + 1).map(row => {
+    const values = row.slice(0, width).map(cellToString);
+    while (values.length < width) values.push('');
+    return values;
+  });
+
+  if (dataRows.length === 0) {
+    throw new Error(`Sheet "${sheetName}" has no data rows`);
+  }
+  if (dataRows.length > MAX_CSV_ROWS) throw tooManyRows();
+
+  return { headers, rows: dataRows, firstLine: origin + headerIdx + 2 };
+};
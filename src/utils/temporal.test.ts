@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import type { CO2Data } from '@/components/DataUpload';
+import { applyTemporalMode, yearSpan } from './temporal';
+
+const record = (region: string, year: number, emissions: number): CO2Data => ({
+  region,
+  year,
+  sector: 'power',
+  emissions,
+});
+
+const records = [
+  record('Madrid', 2020, 10),
+  record('Madrid', 2021, 20),
+  record('Madrid', 2022, 30),
+  record('Galicia', 2022, 8),
+];
+const span = yearSpan(records);
+const byRegion = (item: CO2Data) => item.region;
+
+const totals = (rows: CO2Data[]) => {
+  const sums: Record<string, number | undefined> = {};
+  rows.forEach(row => {
+    const value = row.emissions as number | undefined;
+    sums[row.region] = value === undefined ? sums[row.region] : (sums[row.region] ?? 0) + value;
+  });
+  return sums;
+};
+
+describe('yearSpan', () => {
+  it('finds the first, last and number of years', () => {
+    expect(span).toEqual({ first: 2020, last: 2022, count: 3 });
+    expect(yearSpan([])).toBeNull();
+  });
+});
+
+describe('applyTemporalMode', () => {
+  it('leaves records as they are for the sum', () => {
+    expect(applyTemporalMode(records, ['emissions'], 'sum', span)).toBe(records);
+  });
+
+  it('keeps only the last year for the latest', () => {
+    expect(applyTemporalMode(records, ['emissions'], 'latest', span)).toEqual(records.slice(2));
+  });
+
+  it('averages over the years each place has data for', () => {
+    const averaged = applyTemporalMode(records, ['emissions'], 'average', span, byRegion);
+    expect(totals(averaged)).toEqual({ Madrid: 20, Galicia: 8 });
+  });
+
+  it('averages over all the years without places', () => {
+    const averaged = totals(applyTemporalMode(records, ['emissions'], 'average', span));
+    expect(averaged.Madrid).toBe(20);
+    expect(averaged.Galicia).toBeCloseTo(8 / 3);
+  });
+
+  it('subtracts the first year from the last', () => {
+    const changed = applyTemporalMode(records, ['emissions'], 'change', span, byRegion);
+    expect(totals(changed).Madrid).toBe(20);
+  });
+
+  it('leaves places missing the first or last year without a change', () => {
+    const changed = applyTemporalMode(records, ['emissions'], 'change', span, byRegion);
+    const galicia = changed.filter(item => item.region === 'Galicia');
+    expect(galicia).toHaveLength(1);
+    expect(galicia[0].emissions).toBeUndefined();
+  });
+
+  it('is a zero change within a single year', () => {
+    const single = [record('Madrid', 2022, 5)];
+    const changed = applyTemporalMode(single, ['emissions'], 'change', yearSpan(single));
+    expect(changed[0].emissions).toBe(0);
+  });
+});
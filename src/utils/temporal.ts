@@ -0,0 +1,85 @@
+import type { CO2Data } from '@/components/DataUpload';
+
+/**
+ * How the years of a range collapse into one value: their sum, the annual
+ * average, the latest year alone, or the change from the first to the last.
+ */
+export type TemporalMode = 'sum' | 'average' | 'latest' | 'change';
+
+export const TEMPORAL_MODES: TemporalMode[] = ['sum', 'average', 'latest', 'change'];
+
+export interface YearSpan {
+  first: number;
+  last: number;
+  /** Distinct years with data */
+  count: number;
+}
+
+/**
+ * First, last and number of years present in the records, or null when
+ * there are none.
+ */
+export const yearSpan = (records: CO2Data[]): YearSpan | null => {
+  const years = new Set(records.map(record => record.year));
+  if (years.size === 0) return null;
+  const sorted = Array.from(years).sort((a, b) => a - b);
+  return { first: sorted[0], last: sorted[sorted.length - 1], count: sorted.length };
+};
+
+const scale = (record: CO2Data, metrics: string[], factor: number): CO2Data => {
+  const scaled = { ...record };
+  metrics.forEach(metric => {
+    if (typeof scaled[metric] === 'number') scaled[metric] = (scaled[metric] as number) * factor;
+  });
+  return scaled;
+};
+
+const clear = (record: CO2Data, metrics: string[]): CO2Data => {
+  const cleared = { ...record };
+  metrics.forEach(metric => {
+    cleared[metric] = undefined;
+  });
+  return cleared;
+};
+
+/**
+ * Rewrite records so that summing them, as every aggregation does, yields
+ * the temporal mode's value: averages divide by the number of years each
+ * place has data for, and the change counts the last year positively and
+ * the first negatively. Places missing either of those years keep their
+ * records without values, so they show as n/a rather than as the whole
+ * other year. `placeOf` keys records by the place they are summed into;
+ * by default all of them are one place.
+ */
+export const applyTemporalMode = (
+  records: CO2Data[],
+  metrics: string[],
+  mode: TemporalMode,
+  span: YearSpan | null,
+  placeOf: (record: CO2Data) => string = () => ''
+): CO2Data[] => {
+  if (!span || mode === 'sum') return records;
+  if (mode === 'latest') return records.filter(record => record.year === span.last);
+
+  const years = new Map<string, Set<number>>();
+  records.forEach(record => {
+    const place = placeOf(record);
+    const placeYears = years.get(place) ?? new Set<number>();
+    placeYears.add(record.year);
+    years.set(place, placeYears);
+  });
+  const yearsOf = (record: CO2Data) => years.get(placeOf(record))!;
+
+  if (mode === 'average') {
+    return records.map(record => scale(record, metrics, 1 / yearsOf(record).size));
+  }
+  if (span.first === span.last) return records.map(record => scale(record, metrics, 0));
+  return records.flatMap(record => {
+    if (record.year !== span.first && record.year !== span.last) return [];
+    const placeYears = yearsOf(record);
+    if (!placeYears.has(span.first) || !placeYears.has(span.last)) {
+      return [clear(record, metrics)];
+    }
+    return [record.year === span.last ? record : scale(record, metrics, -1)];
+  });
+};
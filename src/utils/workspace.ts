@@ -0,0 +1,57 @@
+import type { CO2Data } from '@/components/DataUpload';
+
+/** A dataset held in the workspace alongside the others */
+export interface WorkspaceDataset {
+  id: string;
+  name: string;
+  /** Records tagged with this dataset's id */
+  data: CO2Data[];
+  active: boolean;
+}
+
+/**
+ * `merged` sums the active datasets at each location; `separate` keeps a
+ * marker per dataset so they can be told apart.
+ */
+export type ViewMode = 'merged' | 'separate';
+
+export const DATASET_COLORS = ['#2563eb', '#9333ea', '#0891b2', '#db2777', '#65a30d', '#ea580c'];
+
+let nextId = 0;
+
+/**
+ * Wrap loaded records as an active workspace dataset, tagging each record
+ * with the dataset it came from.
+ */
+export const createWorkspaceDataset = (name: string, data: CO2Data[]): WorkspaceDataset => {
+  const id = `ds${++nextId}`;
+  return {
+    id,
+    name,
+    data: data.map(record => ({ ...record, dataset: id })),
+    active: true,
+  };
+};
+
+/** Records of every active dataset, in workspace order */
+export const activeRecords = (datasets: WorkspaceDataset[]): CO2Data[] =>
+  datasets.filter(d => d.active).flatMap(d => d.data);
+
+export const datasetColor = (datasets: WorkspaceDataset[], id: string | undefined): string => {
+  const index = datasets.findIndex(d => d.id === id);
+  return DATASET_COLORS[Math.max(0, index) % DATASET_COLORS.length];
+};
+
+/**
+ * Sum a numeric field per dataset id.
+ */
+export const sumBySource = (records: CO2Data[], field: string): Record<string, number> => {
+  const totals: Record<string, number> = {};
+  records.forEach(record => {
+    const value = record[field];
+    if (typeof value !== 'number' || !isFinite(value)) return;
+    const source = record.dataset ?? '';
+    totals[source] = (totals[source] ?? 0) + value;
+  });
+  return totals;
+};
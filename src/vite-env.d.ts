@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_MAX_FILE_SIZE_MB?: string;
+  readonly VITE_MAX_CSV_ROWS?: string;
+  readonly VITE_MAX_CSV_COLUMNS?: string;
+  readonly VITE_MAX_GEOJSON_PROPERTIES?: string;
+}
@@ -0,0 +1,226 @@
+import Papa from 'papaparse';
+import { unzipSync } from 'fflate';
+import { MAX_CSV_ROWS } from '../utils/security';
+import {
+  createIngestor,
+  isBlankRow,
+  PREVIEW_ROWS,
+  readHeaders,
+  type ColumnMapping,
+  type CSVTable,
+  type IngestResult,
+  type Ingestor,
+  type SourceTable,
+} from '../utils/ingest';
+import {
+  createLocator,
+  loadMunicipalityBoundaries,
+  loadRegionBoundaries,
+} from '../utils/boundaries';
+import {
+  createClimateTraceAggregator,
+  SOURCES_ENTRY,
+  type ClimateTraceLevel,
+  type ClimateTraceSource,
+} from '../utils/climatetrace';
+import { readGeoJSON } from '../utils/geojson';
+
+export type IngestRequest =
+  | { type: 'csv'; file: Blob; mapping?: ColumnMapping }
+  | { type: 'sheet'; file: Blob; sheet: string; mapping?: ColumnMapping }
+  | { type: 'geojson'; file: Blob; mapping?: ColumnMapping }
+  | { type: 'climatetrace'; file: Blob; level: ClimateTraceLevel };
+
+/** Requests for the headers and first rows of a file read whole */
+export type PreviewRequest =
+  | { type: 'sheetPreview'; file: Blob; sheet?: string }
+  | { type: 'geojsonPreview'; file: Blob };
+
+/** Headers and first rows of a table, with the sheets of a workbook */
+export interface TablePreview extends CSVTable {
+  sheets?: { names: string[]; current: string };
+}
+
+export type IngestResponse =
+  | { type: 'progress'; progress: number }
+  | { type: 'done'; result: IngestResult }
+  | { type: 'preview'; preview: TablePreview }
+  | { type: 'error'; message: string };
+
+// Rows ingested between progress messages for tables read whole
+const PROGRESS_ROWS = 10_000;
+
+// Bytes handed to the parser at a time; also the progress granularity
+const CHUNK_SIZE = 1024 * 1024;
+
+const post = (message: IngestResponse) => {
+  (self as unknown as Worker).postMessage(message);
+};
+
+const parseCSVFile = ({ file, mapping }: Extract<IngestRequest, { type: 'csv' }>) => {
+  let ingestor: Ingestor | null = null;
+  let line = 0;
+  let chunks = 0;
+  let failed = false;
+
+  const fail = (message: string) => {
+    failed = true;
+    post({ type: 'error', message });
+  };
+
+  Papa.parse(file, {
+    header: false,
+    skipEmptyLines: false,
+    chunkSize: CHUNK_SIZE,
+    chunk: (results: { data: string[][] }, parser: { abort: () => void }) => {
+      try {
+        for (const row of results.data) {
+          line++;
+          if (!ingestor) {
+            if (isBlankRow(row)) continue;
+            ingestor = createIngestor(readHeaders(row), mapping);
+            continue;
+          }
+          if (line > MAX_CSV_ROWS + 1) { // +1 for header
+            throw new Error(`CSV file has too many rows. Maximum allowed: ${MAX_CSV_ROWS}`);
+          }
+          ingestor.push(row, line);
+        }
+      } catch (err) {
+        parser.abort();
+        fail(err instanceof Error ? err.message : String(err));
+        return;
+      }
+
+      chunks++;
+      post({
+        type: 'progress',
+        progress: Math.min(100, Math.round(((chunks * CHUNK_SIZE) / file.size) * 100)),
+      });
+    },
+    complete: () => {
+      if (failed) return;
+      if (!ingestor) {
+        fail('CSV file must have at least a header and one data row');
+        return;
+      }
+      post({ type: 'done', result: ingestor.finish() });
+    },
+    error: (err: Error) => fail(err.message),
+  });
+};
+
+/**
+ * Ingest a table read whole, reporting progress every PROGRESS_ROWS rows.
+ * Numeric cells arrive with decimal points, but spreadsheet text cells keep
+ * the separators they were typed with, so columns are detected as in CSV.
+ */
+const ingestRows = ({ headers, rows, firstLine }: SourceTable, mapping?: ColumnMapping) => {
+  const ingestor = createIngestor(headers, mapping);
+  rows.forEach((values, i) => {
+    ingestor.push(values, firstLine + i);
+    if ((i + 1) % PROGRESS_ROWS === 0) {
+      post({ type: 'progress', progress: Math.round(((i + 1) / rows.length) * 100) });
+    }
+  });
+  post({ type: 'done', result: ingestor.finish() });
+};
+
+const previewRows = (table: SourceTable): CSVTable => ({
+  headers: table.headers,
+  rows: table.rows.slice(0, PREVIEW_ROWS),
+});
+
+// Spreadsheet support is loaded on demand to keep it out of the CSV path
+const previewSheet = async ({ file, sheet }: Extract<PreviewRequest, { type: 'sheetPreview' }>) => {
+  const { PREVIEW_SHEET_ROWS, readSheet, readWorkbook } = await import('../utils/spreadsheet');
+  const workbook = await readWorkbook(file, PREVIEW_SHEET_ROWS);
+  const current = sheet ?? workbook.SheetNames[0];
+  post({
+    type: 'preview',
+    preview: {
+      ...previewRows(readSheet(workbook, current)),
+      sheets: { names: workbook.SheetNames, current },
+    },
+  });
+};
+
+const parseSheet = async ({ file, sheet, mapping }: Extract<IngestRequest, { type: 'sheet' }>) => {
+  const { readSheet, readWorkbook } = await import('../utils/spreadsheet');
+  ingestRows(readSheet(await readWorkbook(file), sheet), mapping);
+};
+
+const previewGeoJSON = async ({ file }: Extract<PreviewRequest, { type: 'geojsonPreview' }>) => {
+  post({ type: 'preview', preview: previewRows(readGeoJSON(await file.text())) });
+};
+
+const parseGeoJSON = async ({ file, mapping }: Extract<IngestRequest, { type: 'geojson' }>) => {
+  ingestRows(readGeoJSON(await file.text()), mapping);
+};
+
+/**
+ * Unzip a ClimateTrace country package and aggregate its sources CSVs. Only
+ * one entry is inflated at a time to bound memory use.
+ */
+const parseClimateTraceZip = async ({
+  file,
+  level,
+}: Extract<IngestRequest, { type: 'climatetrace' }>) => {
+  const zip = new Uint8Array(await file.arrayBuffer());
+  const entries: { name: string; size: number }[] = [];
+  unzipSync(zip, {
+    filter: info => {
+      if (SOURCES_ENTRY.test(info.name)) entries.push({ name: info.name, size: info.size });
+      return false;
+    },
+  });
+  if (entries.length === 0) {
+    throw new Error('No ClimateTrace emissions sources CSV found in the zip file');
+  }
+
+  // Sources are placed in municipalities unless only communities are wanted
+  const boundaries = await (level === 'region' ? loadRegionBoundaries() : loadMunicipalityBoundaries());
+  const aggregator = createClimateTraceAggregator(level, createLocator(boundaries));
+  const decoder = new TextDecoder();
+  const totalSize = entries.reduce((sum, e) => sum + e.size, 0);
+  let doneSize = 0;
+
+  for (const entry of entries) {
+    const unzipped = unzipSync(zip, { filter: info => info.name === entry.name });
+    Papa.parse(decoder.decode(unzipped[entry.name]), {
+      header: true,
+      skipEmptyLines: true,
+      step: (results: { data: ClimateTraceSource }) => aggregator.push(results.data),
+    });
+    doneSize += entry.size;
+    post({ type: 'progress', progress: Math.round((doneSize / totalSize) * 100) });
+  }
+
+  post({ type: 'done', result: aggregator.finish() });
+};
+
+const postError = (err: unknown) =>
+  post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+
+self.addEventListener('message', (event: MessageEvent<IngestRequest | PreviewRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'climatetrace':
+      parseClimateTraceZip(request).catch(postError);
+      break;
+    case 'sheet':
+      parseSheet(request).catch(postError);
+      break;
+    case 'sheetPreview':
+      previewSheet(request).catch(postError);
+      break;
+    case 'geojson':
+      parseGeoJSON(request).catch(postError);
+      break;
+    case 'geojsonPreview':
+      previewGeoJSON(request).catch(postError);
+      break;
+    default:
+      parseCSVFile(request);
+  }
+});
@@ -0,0 +1,90 @@
+import type { IngestResult } from '../utils/ingest';
+import type {
+  IngestRequest,
+  IngestResponse,
+  PreviewRequest,
+  TablePreview,
+} from './ingest.worker';
+
+interface RunIngestOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void;
+}
+
+type WorkerResult = Exclude<IngestResponse, { type: 'progress' | 'error' }>;
+
+/**
+ * Run a request in a Web Worker until it answers. Aborting the signal
+ * terminates the worker and rejects with an AbortError, like fetch does.
+ */
+const runWorker = (
+  request: IngestRequest | PreviewRequest,
+  { signal, onProgress }: RunIngestOptions
+): Promise<WorkerResult> =>
+  new Promise((resolve, reject) => {
+    const abortError = () => new DOMException('Upload cancelled', 'AbortError');
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const worker = new Worker(new URL('./ingest.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+    const handleAbort = () => {
+      cleanup();
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (event: MessageEvent<IngestResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+        return;
+      }
+      cleanup();
+      if (message.type === 'error') {
+        reject(new Error(message.message));
+      } else {
+        resolve(message);
+      }
+    };
+    worker.onerror = event => {
+      cleanup();
+      reject(new Error(event.message));
+    };
+
+    worker.postMessage(request);
+  });
+
+const unexpected = (message: WorkerResult) =>
+  new Error(`Unexpected worker response: ${message.type}`);
+
+/**
+ * Parse and validate a file in a Web Worker.
+ */
+export const runIngest = async (
+  request: IngestRequest,
+  options: RunIngestOptions = {}
+): Promise<IngestResult> => {
+  const message = await runWorker(request, options);
+  if (message.type !== 'done') throw unexpected(message);
+  return message.result;
+};
+
+/**
+ * Read the headers and first rows of a file in a Web Worker.
+ */
+export const runPreview = async (
+  request: PreviewRequest,
+  options: RunIngestOptions = {}
+): Promise<TablePreview> => {
+  const message = await runWorker(request, options);
+  if (message.type !== 'preview') throw unexpected(message);
+  return message.preview;
+};